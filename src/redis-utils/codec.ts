@@ -0,0 +1,34 @@
+/**
+ * turn values into what redis stores and back
+ */
+export interface Codec<T> {
+  encode: (value: T) => string | Buffer;
+  decode: (raw: Buffer) => T;
+}
+
+/**
+ * values are plain utf8 strings
+ */
+export const stringCodec: Codec<string> = {
+  encode: (value) => value,
+  decode: (raw) => raw.toString(),
+};
+
+/**
+ * values are binary data
+ */
+export const bufferCodec: Codec<Buffer> = {
+  encode: (value) => value,
+  decode: (raw) => raw,
+};
+
+/**
+ * values are serialized as json
+ * @returns
+ */
+export function jsonCodec<T>(): Codec<T> {
+  return {
+    encode: (value) => JSON.stringify(value),
+    decode: (raw) => JSON.parse(raw.toString()),
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, test, expect } from "@jest/globals";
+import { nextCronTime, parseCron } from "./cron";
+
+describe("cron", () => {
+  test("parse the fields", () => {
+    const cron = parseCron("*/15 9-17 * * 1-5");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(cron.days.size).toEqual(31);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron("0 0 * * 7").weekdays]).toEqual([0]);
+
+    expect(() => parseCron("* * * *")).toThrow();
+    expect(() => parseCron("60 * * * *")).toThrow();
+    expect(() => parseCron("*/0 * * * *")).toThrow();
+  });
+
+  test("find the next time in UTC", () => {
+    const at = (...args: number[]) =>
+      Date.UTC(args[0], args[1] - 1, args[2], args[3], args[4]);
+
+    expect(nextCronTime("*/15 * * * *", at(2024, 1, 1, 0, 7))).toEqual(
+      at(2024, 1, 1, 0, 15)
+    );
+    expect(nextCronTime("*/15 * * * *", at(2024, 1, 1, 0, 15))).toEqual(
+      at(2024, 1, 1, 0, 30)
+    );
+    // friday evening to monday morning
+    expect(nextCronTime("0 9 * * 1-5", at(2024, 1, 5, 18, 0))).toEqual(
+      at(2024, 1, 8, 9, 0)
+    );
+    // leap day
+    expect(nextCronTime("30 12 29 2 *", at(2023, 3, 1, 0, 0))).toEqual(
+      at(2024, 2, 29, 12, 30)
+    );
+    // either the day of month or the day of week
+    expect(nextCronTime("0 0 13 * 5", at(2024, 1, 1, 0, 0))).toEqual(
+      at(2024, 1, 5, 0, 0)
+    );
+    expect(() => nextCronTime("0 0 31 2 *", at(2024, 1, 1, 0, 0))).toThrow();
+  });
+});
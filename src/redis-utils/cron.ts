@@ -0,0 +1,131 @@
+/**
+ * a parsed five field cron expression: minute hour day-of-month month day-of-week
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** day-of-month and day-of-week match either way when both are restricted */
+  anyDay: boolean;
+}
+
+const FIELDS: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/**
+ * expand one field like "*", "5", "1-5", "*\/15" or "0,30"
+ * @param field
+ * @param min
+ * @param max
+ * @returns
+ */
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let [from, to] = [min, max];
+    if (range != "*") {
+      const [start, end] = range.split("-").map(Number);
+      from = start;
+      to = end ?? (stepText === undefined ? start : max);
+    }
+
+    if (
+      !Number.isInteger(from) ||
+      !Number.isInteger(to) ||
+      !Number.isInteger(step) ||
+      from < min ||
+      to > max ||
+      from > to ||
+      step < 1
+    ) {
+      throw new Error(`invalid cron field: ${field}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * @param expression
+ * @returns
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length != 5) {
+    throw new Error(`invalid cron expression: ${expression}`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseField(field, ...FIELDS[i])
+  );
+  // 7 is another name for sunday
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] != "*" && fields[4] != "*",
+  };
+}
+
+/**
+ * the first minute after the given time matching the schedule, in UTC
+ * @param schedule
+ * @param after milliseconds since the epoch
+ * @returns milliseconds since the epoch
+ */
+export function nextCronTime(
+  schedule: CronSchedule | string,
+  after: number
+): number {
+  const cron = typeof schedule == "string" ? parseCron(schedule) : schedule;
+  const t = new Date(after);
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+
+  // a valid schedule matches within a few years
+  const limit = after + 5 * 366 * 24 * 3600 * 1000;
+  while (t.getTime() <= limit) {
+    if (!cron.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0);
+      continue;
+    }
+
+    const dayOfMonth = cron.days.has(t.getUTCDate());
+    const dayOfWeek = cron.weekdays.has(t.getUTCDay());
+    if (cron.anyDay ? !dayOfMonth && !dayOfWeek : !dayOfMonth || !dayOfWeek) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1);
+      continue;
+    }
+    return t.getTime();
+  }
+  throw new Error("the cron schedule never matches");
+}
@@ -1 +1,6 @@
 export * from "./redis-client";
+export * from "./codec";
+export * from "./cron";
+export * from "./redlock";
+export * from "./rate-limit";
+export { AcquireOptions, TimeBucket } from "./utils";
@@ -0,0 +1,111 @@
+import { describe, test, expect } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import { createRedisClient } from "./redis-client";
+import { byHeader, createRateLimiter } from "./rate-limit";
+
+function request(
+  port: number,
+  headers: Record<string, string>
+): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ port, path: "/", headers }, (res) => {
+        res.resume();
+        res.on("end", () => resolve(res));
+      })
+      .on("error", reject);
+  });
+}
+
+describe("Rate limit middleware", () => {
+  test("limit a node http server", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    await client.invalidatePattern("test:ratelimit:*");
+
+    const limiter = createRateLimiter(client, {
+      prefix: "test:ratelimit:",
+      key: byHeader("X-Api-Key"),
+      limits: [
+        { max: 3, seconds: 1 },
+        { max: 100, seconds: 3600, algorithm: "sliding-window" },
+      ],
+      allowList: ["admin"],
+      denyList: (key) => key.startsWith("banned"),
+    });
+
+    const server = http.createServer(async (req, res) => {
+      if (await limiter.handle(req, res)) {
+        res.end("ok");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    for (let i = 0; i < 3; i++) {
+      const res = await request(port, { "X-Api-Key": "user1" });
+      expect(res.statusCode).toEqual(200);
+      expect(res.headers["ratelimit-limit"]).toEqual("3");
+      expect(res.headers["ratelimit-remaining"]).toEqual(String(2 - i));
+      expect(res.headers["ratelimit-policy"]).toEqual("3;w=1, 100;w=3600");
+    }
+
+    const limited = await request(port, { "X-Api-Key": "user1" });
+    expect(limited.statusCode).toEqual(429);
+    expect(Number(limited.headers["retry-after"])).toBeGreaterThan(0);
+
+    // the denied call did not use up the hourly budget
+    const hourly = client.throttle("test:ratelimit:100/3600:user1", 100, 3600, {
+      algorithm: "sliding-window",
+    });
+    expect(await hourly.get()).toEqual(3);
+
+    // calls without the header are limited by their ip
+    for (let i = 0; i < 3; i++) {
+      expect((await request(port, {})).statusCode).toEqual(200);
+    }
+    expect((await request(port, {})).statusCode).toEqual(429);
+
+    // other keys have their own limits
+    const other = await request(port, { "X-Api-Key": "user2" });
+    expect(other.statusCode).toEqual(200);
+
+    for (let i = 0; i < 5; i++) {
+      const admin = await request(port, { "X-Api-Key": "admin" });
+      expect(admin.statusCode).toEqual(200);
+      expect(admin.headers["ratelimit-limit"]).toBeUndefined();
+    }
+
+    const banned = await request(port, { "X-Api-Key": "banned1" });
+    expect(banned.statusCode).toEqual(403);
+
+    // the keyless calls are kept apart from the header keys
+    const keyless = { headers: {}, socket: { remoteAddress: "10.0.0.1" } };
+    const decision = await limiter.check(
+      keyless as unknown as http.IncomingMessage
+    );
+    expect(decision.key).toEqual("ip:10.0.0.1");
+
+    // a call refused by a later limit uses up none of the earlier ones
+    const strict = createRateLimiter(client, {
+      prefix: "test:ratelimit:",
+      key: byHeader("X-Api-Key"),
+      limits: [
+        { max: 10, seconds: 60 },
+        { max: 1, seconds: 60 },
+      ],
+    });
+    const call = { headers: { "x-api-key": "user3" }, socket: {} };
+    const req = call as unknown as http.IncomingMessage;
+    expect((await strict.check(req)).allowed).toBeTruthy();
+    const refused = await strict.check(req);
+    expect(refused.allowed).toBeFalsy();
+    expect(refused.limit).toEqual({ max: 1, seconds: 60 });
+    expect(refused.result!.retryAfterMs).toBeGreaterThan(0);
+    const wide = client.throttle("test:ratelimit:10/60:user3", 10, 60);
+    expect(await wide.get()).toEqual(1);
+
+    await new Promise((resolve) => server.close(resolve));
+    await client.close();
+  });
+});
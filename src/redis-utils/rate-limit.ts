@@ -0,0 +1,284 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { RedisClient, ThrottleAlgorithm, ThrottleResult } from "./redis-client";
+
+export interface RateLimit {
+  max: number;
+  seconds: number;
+  algorithm?: ThrottleAlgorithm;
+  burst?: number;
+}
+
+export type KeyExtractor = (
+  req: IncomingMessage
+) => string | undefined | Promise<string | undefined>;
+
+export interface RateLimitOptions {
+  /**
+   * all the limits must allow a call, e.g. 10 per second and 1000 per hour,
+   * a call is only taken from them once every one allows it
+   */
+  limits: RateLimit[];
+  /**
+   * who is limited, the client ip by default, calls without a key are
+   * limited by their ip as "ip:<address>"
+   */
+  key?: KeyExtractor;
+  /** throttle key prefix, default "ratelimit:" */
+  prefix?: string;
+  /** keys that are never limited */
+  allowList?: string[] | ((key: string) => boolean);
+  /** keys that are always refused */
+  denyList?: string[] | ((key: string) => boolean);
+  /** add the RateLimit-* headers, default true */
+  headers?: boolean;
+  /** body of the 429 response */
+  message?: string;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** 429 when limited, 403 when denied */
+  status: number;
+  key?: string;
+  headers: Record<string, string>;
+  /** the most restrictive limit and its result */
+  limit?: RateLimit;
+  result?: ThrottleResult;
+}
+
+/**
+ * limit by the client ip
+ * @param trustProxy take the first X-Forwarded-For address
+ * @returns
+ */
+export function byIp(trustProxy: boolean = false): KeyExtractor {
+  return (req) => {
+    const forwarded = req.headers["x-forwarded-for"];
+    if (trustProxy && forwarded) {
+      const value = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+      return value.split(",")[0].trim();
+    }
+    return req.socket.remoteAddress;
+  };
+}
+
+/**
+ * limit by a request header, e.g. an api key
+ * @param name
+ * @returns
+ */
+export function byHeader(name: string): KeyExtractor {
+  return (req) => {
+    const value = req.headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+  };
+}
+
+function matches(
+  list: string[] | ((key: string) => boolean) | undefined,
+  key: string
+): boolean {
+  if (!list) {
+    return false;
+  }
+  return Array.isArray(list) ? list.includes(key) : list(key);
+}
+
+/**
+ * create a framework agnostic http rate limiter on top of throttle()
+ * @param client
+ * @param options
+ * @returns
+ */
+export function createRateLimiter(
+  client: Pick<Awaited<RedisClient>, "throttle">,
+  options: RateLimitOptions
+) {
+  const fallback = byIp();
+  const extract = options.key ?? fallback;
+  const prefix = options.prefix ?? "ratelimit:";
+  const message = options.message ?? "Too Many Requests";
+  const policy = options.limits
+    .map((limit) => `${limit.max};w=${limit.seconds}`)
+    .join(", ");
+
+  /**
+   * consume the call from every limit of the request key
+   * @param req
+   * @returns
+   */
+  async function check(req: IncomingMessage): Promise<RateLimitDecision> {
+    // a missing key must not be a way around the limits, the ip keys
+    // stay apart from the extracted ones
+    const key =
+      (await extract(req)) ?? `ip:${(await fallback(req)) ?? "unknown"}`;
+    if (matches(options.allowList, key)) {
+      return { allowed: true, status: 200, key, headers: {} };
+    }
+    if (matches(options.denyList, key)) {
+      return { allowed: false, status: 403, key, headers: {} };
+    }
+
+    const throttles = options.limits.map((limit) =>
+      client.throttle(
+        `${prefix}${limit.max}/${limit.seconds}:${key}`,
+        limit.max,
+        limit.seconds,
+        {
+          algorithm: limit.algorithm,
+          burst: limit.burst,
+        }
+      )
+    );
+    // peek at every limit first, a call refused by one uses up none
+    let results = await Promise.all(
+      throttles.map((throttle) => throttle.consume(0))
+    );
+    const denying = results.findIndex((result) => result.remaining < 1);
+    if (denying >= 0) {
+      // a refused consume takes nothing and tells when to retry
+      results[denying] = await throttles[denying].consume();
+    }
+    if (results.every((result) => result.allowed)) {
+      results = await Promise.all(
+        throttles.map((throttle, i) =>
+          i == denying ? results[i] : throttle.consume()
+        )
+      );
+    }
+
+    // report the limit closest to refusing the call
+    let index = 0;
+    results.forEach((result, i) => {
+      const current = results[index];
+      if (
+        (!result.allowed && current.allowed) ||
+        (result.allowed == current.allowed &&
+          result.remaining < current.remaining)
+      ) {
+        index = i;
+      }
+    });
+    const limit = options.limits[index];
+    const result = results[index];
+
+    const headers: Record<string, string> = {};
+    if (options.headers ?? true) {
+      headers["RateLimit-Limit"] = String(limit.max);
+      headers["RateLimit-Remaining"] = String(result.remaining);
+      headers["RateLimit-Reset"] = String(Math.ceil(result.resetMs / 1000));
+      headers["RateLimit-Policy"] = policy;
+    }
+    if (!result.allowed) {
+      headers["Retry-After"] = String(Math.ceil(result.retryAfterMs / 1000));
+    }
+
+    return {
+      allowed: result.allowed,
+      status: result.allowed ? 200 : 429,
+      key,
+      headers,
+      limit,
+      result,
+    };
+  }
+
+  function reject(decision: RateLimitDecision): string {
+    return decision.status == 403 ? "Forbidden" : message;
+  }
+
+  /**
+   * node http handler, answers refused calls itself
+   * @param req
+   * @param res
+   * @returns true when the call may go on
+   */
+  async function handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<boolean> {
+    const decision = await check(req);
+    for (const [name, value] of Object.entries(decision.headers)) {
+      res.setHeader(name, value);
+    }
+    if (!decision.allowed) {
+      res.statusCode = decision.status;
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.end(reject(decision));
+    }
+    return decision.allowed;
+  }
+
+  /**
+   * express / connect middleware
+   * @returns
+   */
+  function express() {
+    return (
+      req: IncomingMessage,
+      res: ServerResponse,
+      next: (err?: unknown) => void
+    ) => {
+      handle(req, res).then((allowed) => allowed && next(), next);
+    };
+  }
+
+  /**
+   * koa middleware
+   * @returns
+   */
+  function koa() {
+    return async (
+      ctx: {
+        req: IncomingMessage;
+        status: number;
+        body: unknown;
+        set: (name: string, value: string) => void;
+      },
+      next: () => Promise<unknown>
+    ) => {
+      const decision = await check(ctx.req);
+      for (const [name, value] of Object.entries(decision.headers)) {
+        ctx.set(name, value);
+      }
+      if (!decision.allowed) {
+        ctx.status = decision.status;
+        ctx.body = reject(decision);
+        return;
+      }
+      await next();
+    };
+  }
+
+  /**
+   * fastify onRequest hook
+   * @returns
+   */
+  function fastify() {
+    return async (
+      request: { raw: IncomingMessage },
+      reply: {
+        header: (name: string, value: string) => unknown;
+        code: (status: number) => { send: (body: string) => unknown };
+      }
+    ) => {
+      const decision = await check(request.raw);
+      for (const [name, value] of Object.entries(decision.headers)) {
+        reply.header(name, value);
+      }
+      if (!decision.allowed) {
+        return reply.code(decision.status).send(reject(decision));
+      }
+    };
+  }
+
+  return {
+    check,
+    handle,
+    express,
+    koa,
+    fastify,
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
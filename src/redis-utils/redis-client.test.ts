@@ -1,5 +1,13 @@
 import { describe, test, expect } from "@jest/globals";
-import { createRedisClient, RedisClient } from "./redis-client";
+import {
+  createRedisClient,
+  JobEvent,
+  KeyspaceEvent,
+  LeaderEvent,
+  RedisClient,
+  ThrottleAlgorithm,
+} from "./redis-client";
+import { jsonCodec } from "./codec";
 
 describe("Redis Client", () => {
   let client: RedisClient;
@@ -40,6 +48,73 @@ describe("Redis Client", () => {
     await client.close();
   });
 
+  test("using publish / subscribe", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const codec = jsonCodec<{ id: number }>();
+    const orders: number[] = [];
+    const all: number[] = [];
+    const first = client
+      .subscribe("test:orders:created", { codec })
+      .subscribe((order) => orders.push(order.id));
+    const second = client
+      .subscribe("test:orders:*", { codec })
+      .subscribe((order) => all.push(order.id));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(
+      await client.publish("test:orders:created", { id: 1 }, codec)
+    ).toEqual(2);
+    await client.publish("test:orders:paid", { id: 2 }, codec);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(orders).toEqual([1]);
+    expect(all).toEqual([1, 2]);
+
+    // the last unsubscribe drops the redis subscription
+    first.unsubscribe();
+    second.unsubscribe();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(
+      await client.publish("test:orders:created", { id: 3 }, codec)
+    ).toEqual(0);
+
+    await client.close();
+  });
+
+  test("watch keyspace events", async () => {
+    const client = await createRedisClient({
+      url: "redis://127.0.0.1:6379/0",
+      keyPrefix: "app:",
+    });
+    expect(client.ioredis).not.toBeNull();
+
+    const events: KeyspaceEvent[] = [];
+    const subscription = client
+      .watch("test:session:*", ["set", "hset", "expired", "del"], {
+        configure: true,
+      })
+      .subscribe((event) => events.push(event));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    await client.ioredis.set("test:session:1", "andy", "PX", 100);
+    await client.ioredis.hset("test:session:2", "name", "bob");
+    await client.ioredis.expire("test:session:2", 60);
+    await client.ioredis.del("test:session:2");
+    await client.ioredis.set("test:other", "ignored");
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    subscription.unsubscribe();
+
+    expect(events).toEqual([
+      { event: "set", key: "test:session:1" },
+      { event: "hset", key: "test:session:2" },
+      { event: "del", key: "test:session:2" },
+      { event: "expired", key: "test:session:1" },
+    ]);
+
+    await client.close();
+  });
+
   test("using counter helper", async () => {
     const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
     expect(client.ioredis).not.toBeNull();
@@ -63,6 +138,47 @@ describe("Redis Client", () => {
     await client.close();
   });
 
+  test("using unique counter helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.invalidatePattern("test:unique*");
+    const visitors = client.uniqueCounter("test:unique");
+    expect(await visitors.add("andy", "bob")).toBeTruthy();
+    expect(await visitors.add("andy")).toBeFalsy();
+    expect(await visitors.count()).toEqual(2);
+    expect(await client.ioredis.ttl("test:unique")).toEqual(-1);
+
+    const daily = client.uniqueCounter("test:unique:daily", { bucket: "day" });
+    const day = (d: number) => Date.UTC(2024, 0, d, 12);
+    const ids = Array.from({ length: 1000 }, (_, i) => `user:${i}`);
+    await daily.addAt(day(1), ...ids.slice(0, 600));
+    await daily.addAt(day(2), ...ids.slice(400, 1000));
+    await daily.addAt(day(3), "andy");
+
+    expect(Math.abs((await daily.count(day(1))) - 600)).toBeLessThan(20);
+    expect(
+      Math.abs((await daily.countRange(day(1), day(2))) - 1000)
+    ).toBeLessThan(30);
+    expect(await daily.countRange(day(3), day(3))).toEqual(1);
+    expect(await daily.countRange(day(4), day(9))).toEqual(0);
+    // from after to is an empty range
+    expect(await daily.countRange(day(2), day(1))).toEqual(0);
+    await expect(
+      daily.merge("test:unique:month", day(2), day(1))
+    ).rejects.toThrow();
+    expect(
+      await client.ioredis.ttl("test:unique:daily:2024-01-01")
+    ).toBeGreaterThan(399 * 24 * 3600);
+
+    const month = await daily.merge("test:unique:month", day(1), day(31), 60);
+    expect(Math.abs(month - 1001)).toBeLessThan(30);
+    expect(await client.ioredis.ttl("test:unique:month")).toBeGreaterThan(0);
+
+    await expect(visitors.countRange(day(1), day(2))).rejects.toThrow();
+    await client.close();
+  });
+
   test("using bits helper", async () => {
     const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
     expect(client.ioredis).not.toBeNull();
@@ -110,6 +226,185 @@ describe("Redis Client", () => {
     await client.close();
   });
 
+  test("using cache helper with ttl and codecs", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:cache:json";
+    await client.ioredis.del(key);
+
+    const cache = await client.cache<{ id: number; name: string }>(
+      key,
+      undefined,
+      { ttl: 60, codec: jsonCodec() }
+    );
+    expect(await cache.get()).toBeNull();
+
+    const loaded = await cache.getOrLoad(async () => ({ id: 1, name: "andy" }));
+    expect(loaded).toEqual({ id: 1, name: "andy" });
+    expect(await cache.get()).toEqual({ id: 1, name: "andy" });
+    expect(await client.ioredis.pttl(key)).toBeGreaterThan(59000);
+
+    await cache.set({ id: 2, name: "bob" }, { ttl: 1 });
+    expect(await client.ioredis.pttl(key)).toBeLessThanOrEqual(1000);
+    expect(await cache.del()).toBeTruthy();
+
+    // falsy values are cached too
+    const zero = await client.cache(key, "0");
+    expect(await zero.get()).toEqual("0");
+    let calls = 0;
+    const empty = await client.cache(key, "");
+    expect(
+      await empty.getOrLoad(async () => {
+        calls++;
+        return "loaded";
+      })
+    ).toEqual("");
+    expect(calls).toEqual(0);
+
+    // a cache without a codec takes numbers and buffers as before,
+    // they are read back as strings
+    const plain = await client.cache(key, 5);
+    expect(await plain.get()).toEqual("5");
+    await plain.set(Buffer.from("six"));
+    expect(await plain.get()).toEqual("six");
+    const typed = await client.cache(key, 7, { codec: jsonCodec<number>() });
+    expect(await typed.get()).toEqual(7);
+
+    await client.close();
+  });
+
+  test("using cache helper with stampede protection", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:cache:stampede";
+    await client.ioredis.del(key, `${key}:fresh`, `${key}:lock`);
+
+    let calls = 0;
+    const loader = async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return `value${calls}`;
+    };
+
+    const cache = await client.cache(key, undefined, {
+      ttl: 0.3,
+      staleTtl: 10,
+    });
+    const values = await Promise.all(
+      Array.from({ length: 10 }, () => cache.getOrLoad(loader))
+    );
+    expect(values).toEqual(Array(10).fill("value1"));
+    expect(calls).toEqual(1);
+
+    // the stale value is served while one refresh runs in the background
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    const stale = await Promise.all(
+      Array.from({ length: 5 }, () => cache.getOrLoad(loader))
+    );
+    expect(stale).toEqual(Array(5).fill("value1"));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(calls).toEqual(2);
+    expect(await cache.get()).toEqual("value2");
+
+    // another process holds the recompute lock and fills the cache
+    await cache.del();
+    const other = await client.lock(`${key}:lock`, 10);
+    setTimeout(() => client.ioredis.set(key, "from-other"), 200);
+    expect(await cache.getOrLoad(loader)).toEqual("from-other");
+    expect(calls).toEqual(2);
+    await other!.release();
+
+    // without a ttl the value never goes stale
+    const forever = await client.cache(`${key}:forever`, undefined, {
+      staleTtl: 10,
+      earlyExpiration: 1,
+    });
+    await forever.del();
+    expect(await forever.getOrLoad(loader)).toEqual("value3");
+    await forever.getOrLoad(loader);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(calls).toEqual(3);
+    await forever.del();
+
+    await client.close();
+  });
+
+  test("invalidate cache entries by tag and pattern", async () => {
+    const client = await createRedisClient({
+      url: "redis://127.0.0.1:6379/0",
+      keyPrefix: "app:",
+    });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.invalidatePattern("test:cache:user:*");
+    await client.invalidateTag("user:42");
+
+    const profile = await client.cache("test:cache:user:42:profile", "andy", {
+      tags: ["user:42"],
+    });
+    const orders = await client.cache("test:cache:user:42:orders");
+    await orders.set("3 orders", { ttl: 60, tags: ["user:42", "orders"] });
+    const other = await client.cache("test:cache:user:43:profile", "bob", {
+      tags: ["user:43"],
+    });
+
+    expect(await client.invalidateTag("user:42")).toEqual(2);
+    expect(await profile.get()).toBeNull();
+    expect(await orders.get()).toBeNull();
+    expect(await other.get()).toEqual("bob");
+
+    // a rewrite with other tags drops the entry from the old tag sets
+    await other.set("bob", { tags: ["user:44"] });
+    expect(await client.invalidateTag("user:43")).toEqual(0);
+    expect(await other.get()).toEqual("bob");
+    expect(await client.ioredis.smembers("tags:user:43")).toEqual([]);
+
+    // the entry and the set of its tags
+    expect(await client.invalidatePattern("test:cache:user:*", 10)).toEqual(2);
+    expect(await other.get()).toBeNull();
+
+    await client.close();
+  });
+
+  test("using near cache helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:cache:near";
+    await client.ioredis.del(key);
+
+    const near1 = await client.nearCache({ maxEntries: 10, ttl: 60 });
+    const near2 = await client.nearCache({ maxEntries: 10, ttl: 60 });
+
+    const cache1 = await near1.cache(key, "v1");
+    const cache2 = await near2.cache(key);
+    expect(await cache2.get()).toEqual("v1");
+    expect(await cache2.get()).toEqual("v1");
+    expect(near2.stats()).toEqual({
+      local: { hits: 1, misses: 1 },
+      remote: { hits: 1, misses: 0 },
+    });
+
+    // the write on one instance drops the local copy of the other
+    await cache1.set("v2");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await cache2.get()).toEqual("v2");
+    expect(near2.stats().remote.hits).toEqual(2);
+
+    // foreign messages on the channel are ignored
+    await client.publish("near-cache:invalidate", "not json");
+    await client.publish("near-cache:invalidate", "null");
+    await cache1.del();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await cache2.get()).toBeNull();
+
+    await near1.close();
+    await near2.close();
+    await client.close();
+  });
+
   test("using lock helper", async () => {
     const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
     expect(client.ioredis).not.toBeNull();
@@ -132,6 +427,181 @@ describe("Redis Client", () => {
     await client.close();
   });
 
+  test("using lock helper with owner token", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:lock:owner";
+    await client.ioredis.del(key);
+
+    const lock = await client.lock(key, 1);
+    expect(lock).not.toBeNull();
+    expect(await client.ioredis.get(key)).toEqual(lock!.token);
+    expect(await client.ioredis.pttl(key)).toBeGreaterThan(0);
+
+    // a stale holder must not release or extend the new owner's lock
+    await client.ioredis.set(key, "someone-else");
+    expect(await lock!.release()).toBeFalsy();
+    expect(await lock!.extend(10)).toBeFalsy();
+    expect(await client.ioredis.get(key)).toEqual("someone-else");
+
+    await client.ioredis.set(key, lock!.token, "PX", 300);
+    expect(await lock!.extend(1)).toBeTruthy();
+
+    const waiting = await client.lock(key, 1, {
+      waitMs: 3000,
+      retryDelayMs: 50,
+    });
+    expect(waiting).not.toBeNull();
+    expect(await waiting!.release()).toBeTruthy();
+
+    await client.close();
+  });
+
+  test("using lock helper with auto renewal", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:lock:renew";
+    await client.ioredis.del(key);
+
+    let lostError: Error | undefined;
+    const lock = await client.lock(key, 1, {
+      autoRenew: true,
+      renewIntervalMs: 200,
+      onLost: (err) => (lostError = err),
+    });
+    expect(lock).not.toBeNull();
+
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(await client.ioredis.get(key)).toEqual(lock!.token);
+    expect(lock!.signal.aborted).toBeFalsy();
+
+    // someone else took the lock over
+    await client.ioredis.set(key, "someone-else");
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(lock!.signal.aborted).toBeTruthy();
+    expect(lostError).toBeDefined();
+    await lock!.release();
+    await client.ioredis.del(key);
+
+    const result = await client.withLock(key, async (signal) => {
+      expect(await client.lock(key)).toBeNull();
+      return signal.aborted ? "lost" : "done";
+    });
+    expect(result).toEqual("done");
+    expect(await client.ioredis.exists(key)).toEqual(0);
+
+    await client.close();
+  });
+
+  test("using leader election helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.invalidatePattern("test:election:*");
+    const first = client.leaderElection("test:election", {
+      leaseMs: 1000,
+      metadata: { role: "first" },
+    });
+    const events: LeaderEvent[] = [];
+    first.events().subscribe((event) => events.push(event));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(first.isLeader()).toBeTruthy();
+
+    const second = client.leaderElection("test:election", { leaseMs: 1000 });
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(first.isLeader()).toBeTruthy();
+    expect(second.isLeader()).toBeFalsy();
+
+    const leader = await second.leader();
+    expect(leader).toEqual(first.identity);
+    expect(leader!.metadata).toEqual({ role: "first" });
+    expect(leader!.pid).toEqual(process.pid);
+
+    // the follower takes over once the leader steps down
+    await first.close();
+    expect(first.isLeader()).toBeFalsy();
+    expect(events.map((event) => event.event)).toEqual(["elected", "revoked"]);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(second.isLeader()).toBeTruthy();
+    expect((await first.leader())!.id).toEqual(second.identity.id);
+
+    await second.close();
+    expect(await second.leader()).toBeNull();
+    await client.close();
+  });
+
+  test("using semaphore helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:semaphore";
+    await client.ioredis.del(key);
+
+    const semaphore = client.semaphore(key, 2, 30);
+    const first = await semaphore.acquire();
+    const second = await semaphore.acquire();
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+    expect(await semaphore.acquire()).toBeNull();
+    expect(await semaphore.count()).toEqual(2);
+
+    await first!.release();
+    const result = await semaphore.withPermit(async () => {
+      expect(await semaphore.count()).toEqual(2);
+      return "done";
+    });
+    expect(result).toEqual("done");
+    expect(await semaphore.count()).toEqual(1);
+
+    // the permit of a crashed holder is reclaimed after it expires
+    const short = client.semaphore(key, 2, 0.2);
+    expect(await short.acquire()).not.toBeNull();
+    expect(await short.acquire()).toBeNull();
+    expect(
+      await short.acquire({ waitMs: 1000, retryDelayMs: 50 })
+    ).not.toBeNull();
+
+    await client.close();
+  });
+
+  test("using rwLock helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:rwlock";
+    await client.ioredis.del(
+      `${key}:readers`,
+      `${key}:writer`,
+      `${key}:waiting`
+    );
+
+    const rwLock = client.rwLock(key, 30);
+    const reader1 = await rwLock.acquireRead();
+    const reader2 = await rwLock.acquireRead();
+    expect(reader1).not.toBeNull();
+    expect(reader2).not.toBeNull();
+
+    // a waiting writer keeps new readers out
+    const writing = rwLock.acquireWrite({ waitMs: 3000, retryDelayMs: 50 });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await rwLock.acquireRead()).toBeNull();
+
+    await reader1!.release();
+    await reader2!.release();
+    const writer = await writing;
+    expect(writer).not.toBeNull();
+    expect(await rwLock.acquireRead()).toBeNull();
+    expect(await rwLock.acquireWrite()).toBeNull();
+
+    await writer!.release();
+    const result = await rwLock.withRead(async () => "read");
+    expect(result).toEqual("read");
+
+    await client.close();
+  });
+
   test("using throttle helper", async () => {
     const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
     expect(client.ioredis).not.toBeNull();
@@ -153,6 +623,248 @@ describe("Redis Client", () => {
     await client.close();
   });
 
+  test("using throttle helper algorithms", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const algorithms: ThrottleAlgorithm[] = [
+      "fixed-window",
+      "sliding-log",
+      "sliding-window",
+      "token-bucket",
+      "gcra",
+    ];
+    for (const algorithm of algorithms) {
+      const key = `test:throttle:${algorithm}`;
+      await client.ioredis.del(key);
+
+      const throttle = client.throttle(key, 5, 1, { algorithm });
+      for (let i = 0; i < 5; i++) {
+        const result = await throttle.consume();
+        expect(result.allowed).toBeTruthy();
+        expect(result.remaining).toEqual(4 - i);
+        expect(result.retryAfterMs).toEqual(0);
+      }
+
+      const denied = await throttle.consume();
+      expect(denied.allowed).toBeFalsy();
+      expect(denied.remaining).toEqual(0);
+      expect(denied.retryAfterMs).toBeGreaterThan(0);
+      // the sliding window waits for the previous window to fade too
+      expect(denied.retryAfterMs).toBeLessThanOrEqual(2000);
+      expect(await throttle.get()).toEqual(5);
+
+      await new Promise((resolve) => setTimeout(resolve, denied.retryAfterMs));
+      expect((await throttle.consume()).allowed).toBeTruthy();
+    }
+
+    // no bursts of twice the limit around the window boundary
+    const key = "test:throttle:boundary";
+    await client.ioredis.del(key);
+    const throttle = client.throttle(key, 10, 1, {
+      algorithm: "sliding-window",
+    });
+    const nextWindow = () => 1000 - (Date.now() % 1000);
+    await new Promise((resolve) => setTimeout(resolve, nextWindow()));
+    for (let i = 0; i < 10; i++) {
+      await throttle.consume();
+    }
+    await new Promise((resolve) => setTimeout(resolve, nextWindow()));
+    expect((await throttle.consume()).allowed).toBeFalsy();
+
+    await client.close();
+  });
+
+  test("using bloom filter helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.invalidatePattern("test:bloom*");
+    const ids = Array.from({ length: 500 }, (_, i) => `id:${i}`);
+    const others = Array.from({ length: 1000 }, (_, i) => `other:${i}`);
+
+    const bloom = client.bloomFilter("test:bloom", {
+      expectedItems: 500,
+      falsePositiveRate: 0.01,
+    });
+    expect(await bloom.add("id:0", "id:1")).toEqual([true, true]);
+    expect(await bloom.add("id:0")).toEqual([false]);
+    await bloom.add(...ids);
+    expect(await bloom.mightContain(...ids)).not.toContain(false);
+    const positives = (await bloom.mightContain(...others)).filter((x) => x);
+    expect(positives.length).toBeLessThan(50);
+
+    // opened elsewhere with other settings, the saved ones win
+    const reopened = client.bloomFilter("test:bloom", { expectedItems: 10 });
+    const info = await reopened.info();
+    expect(info.capacity).toEqual(500);
+    expect(info.layers.length).toEqual(1);
+    expect(info.layers[0].hashes).toEqual(7);
+    expect(info.layers[0].count).toBeGreaterThan(490);
+    expect(await reopened.mightContain("id:42")).toEqual([true]);
+
+    const scalable = client.bloomFilter("test:bloom:scalable", {
+      expectedItems: 100,
+      scalable: true,
+    });
+    for (let i = 0; i < ids.length; i += 50) {
+      await scalable.add(...ids.slice(i, i + 50));
+    }
+    expect((await scalable.info()).layers.length).toEqual(3);
+    expect(await scalable.mightContain(...ids)).not.toContain(false);
+    const scaledPositives = (await scalable.mightContain(...others)).filter(
+      (x) => x
+    );
+    expect(scaledPositives.length).toBeLessThan(50);
+
+    await bloom.clear();
+    await scalable.clear();
+    await client.close();
+  });
+
+  test("using activity helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.invalidatePattern("test:activity:*");
+    const activity = client.activity("test:activity", { ttl: 3600 });
+    const day = (d: number) => Date.UTC(2024, 0, d, 12);
+
+    expect(await activity.mark(7, day(1))).toBeTruthy();
+    expect(await activity.mark(7, day(1))).toBeFalsy();
+    await activity.mark(3, day(1));
+    await activity.mark(3, day(3));
+    await activity.mark(10, day(5));
+    await activity.mark(7, day(9));
+    await activity.mark(12, day(20));
+
+    expect(await activity.isActive(3, day(3))).toBeTruthy();
+    expect(await activity.isActive(7, day(3))).toBeFalsy();
+    expect(await activity.count(day(1))).toEqual(2);
+    expect(await activity.daily(day(1))).toEqual(2);
+    expect(await activity.weekly(day(7))).toEqual(3);
+    expect(await activity.monthly(day(30))).toEqual(4);
+    expect(await activity.unique(day(2), day(9))).toEqual(3);
+
+    expect(await activity.firstActive(day(4), day(10))).toEqual(7);
+    expect(await activity.firstActive(day(21), day(25))).toBeNull();
+    expect(await activity.unique(day(9), day(2))).toEqual(0);
+    expect(await activity.firstActive(day(10), day(4))).toBeNull();
+
+    expect(
+      await activity.retention([day(1), day(2)], [day(3), day(10)])
+    ).toEqual({ cohort: 2, retained: 2, rate: 1 });
+    expect(
+      await activity.retention([day(1), day(5)], [day(6), day(31)])
+    ).toEqual({ cohort: 3, retained: 1, rate: 1 / 3 });
+
+    // no temporary key is left behind
+    expect(await client.ioredis.keys("test:activity:tmp:*")).toEqual([]);
+    expect(
+      await client.ioredis.ttl("test:activity:2024-01-01")
+    ).toBeGreaterThan(0);
+
+    const hourly = client.activity("test:activity:hourly", { bucket: "hour" });
+    await hourly.mark(1, Date.UTC(2024, 0, 1, 8));
+    await hourly.mark(2, Date.UTC(2024, 0, 1, 22));
+    await hourly.mark(3, Date.UTC(2024, 0, 2, 1));
+    expect(await hourly.count(Date.UTC(2024, 0, 1, 8, 30))).toEqual(1);
+    expect(await hourly.daily(Date.UTC(2024, 0, 1))).toEqual(2);
+
+    await client.close();
+  });
+
+  test("using leaderboard helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.invalidatePattern("test:board*");
+    const board = client.leaderboard("test:board");
+    expect(await board.set("andy", 100)).toEqual(100);
+    // equal scores are ordered by the second they were reached
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await board.set("bob", 100);
+    await board.set("carl", 150);
+    expect(await board.incr("dave", 20)).toEqual(20);
+    expect(await board.incr("dave", 30)).toEqual(50);
+
+    expect(await board.top(3)).toEqual([
+      { member: "carl", score: 150, rank: 1 },
+      { member: "andy", score: 100, rank: 2 },
+      { member: "bob", score: 100, rank: 3 },
+    ]);
+    expect(await board.rank("bob")).toEqual({
+      member: "bob",
+      score: 100,
+      rank: 3,
+    });
+    expect((await board.around("andy", 1)).map((e) => e.member)).toEqual([
+      "carl",
+      "andy",
+      "bob",
+    ]);
+    expect(await board.page(2, 2)).toEqual([
+      { member: "bob", score: 100, rank: 3 },
+      { member: "dave", score: 50, rank: 4 },
+    ]);
+    expect(await board.score("nobody")).toBeNull();
+    expect(await board.rank("nobody")).toBeNull();
+    expect(await board.size()).toEqual(4);
+    // the tie fraction needs whole scores
+    await expect(board.set("erin", 1.5)).rejects.toThrow();
+    await expect(board.incr("dave", 0.5)).rejects.toThrow();
+    await expect(board.set("erin", 2 ** 22)).rejects.toThrow();
+    await board.set("erin", 2 ** 21);
+    await expect(board.incr("erin")).rejects.toThrow();
+    expect(await board.score("erin")).toEqual(2 ** 21);
+    expect(await board.score("dave")).toEqual(50);
+    await board.remove("erin");
+
+    const laps = client.leaderboard("test:board:laps", {
+      order: "asc",
+      earliestFirst: false,
+    });
+    await laps.set("andy", 61.5);
+    await laps.set("bob", 59.25);
+    expect(await laps.top()).toEqual([
+      { member: "bob", score: 59.25, rank: 1 },
+      { member: "andy", score: 61.5, rank: 2 },
+    ]);
+
+    const other = client.leaderboard("test:board:other");
+    await other.set("bob", 60);
+    const merged = await board.merge("test:board:total", [
+      "test:board",
+      "test:board:other",
+    ]);
+    expect(merged).toEqual(4);
+    const total = client.leaderboard("test:board:total");
+    expect((await total.top(2)).map((e) => [e.member, e.score])).toEqual([
+      ["bob", 160],
+      ["carl", 150],
+    ]);
+
+    const daily = client.leaderboard("test:board:daily", { period: "daily" });
+    await daily.incr("andy", 5);
+    expect(daily.keyOf()).toMatch(/^test:board:daily:\d{4}-\d{2}-\d{2}$/);
+    const ttl = await client.ioredis.pttl(daily.keyOf());
+    expect(ttl).toBeGreaterThan(24 * 3600 * 1000);
+    expect(ttl).toBeLessThanOrEqual(2 * 24 * 3600 * 1000);
+    expect(await daily.at(Date.now()).score("andy")).toEqual(5);
+
+    const weekly = client.leaderboard("test:board:weekly", {
+      period: "weekly",
+    });
+    expect(weekly.keyOf(Date.UTC(2024, 0, 3))).toEqual(
+      "test:board:weekly:2024-01-01"
+    );
+    expect(weekly.keyOf(Date.UTC(2024, 0, 7, 23))).toEqual(
+      "test:board:weekly:2024-01-01"
+    );
+
+    await client.close();
+  });
+
   test("using queue helper", async () => {
     const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
     expect(client.ioredis).not.toBeNull();
@@ -172,6 +884,195 @@ describe("Redis Client", () => {
     await client.close();
   });
 
+  test("using reliable queue helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:reliable";
+    await client.invalidatePattern(`${key}*`);
+
+    const queue = client.reliableQueue(key, {
+      consumer: "worker1",
+      visibilitySeconds: 0.2,
+      maxDeliveries: 2,
+    });
+    const [first, second] = await queue.push("a", "b");
+
+    const msg = await queue.pop();
+    expect(msg).toEqual({ id: first, body: "a", deliveries: 1, error: null });
+    expect(await queue.processing()).toEqual(1);
+    expect(await queue.ack(first)).toBeTruthy();
+    expect(await queue.ack(first)).toBeFalsy();
+
+    // a failed message is delivered again and keeps its first error
+    let failed = await queue.pop();
+    expect(failed!.id).toEqual(second);
+    expect(await queue.nack(second, new Error("boom"))).toBeTruthy();
+    failed = await queue.pop();
+    expect(failed).toEqual({
+      id: second,
+      body: "b",
+      deliveries: 2,
+      error: "boom",
+    });
+
+    // the worker "crashed", the reaper moves it to the dead letters
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(await queue.reap()).toEqual(1);
+    expect(await queue.pop()).toBeNull();
+    const dead = await queue.deadLetters();
+    expect(dead).toEqual([
+      { id: second, body: "b", deliveries: 2, error: "boom" },
+    ]);
+
+    expect(await queue.requeueDead()).toEqual(1);
+    const again = await queue.pop();
+    expect(again).toEqual({
+      id: second,
+      body: "b",
+      deliveries: 1,
+      error: null,
+    });
+    await queue.ack(second);
+
+    setTimeout(() => queue.push("c"), 200);
+    const late = await queue.pop(2);
+    expect(late!.body).toEqual("c");
+    expect(await queue.ack(late!.id)).toBeTruthy();
+    expect(await queue.pop(0.5)).toBeNull();
+
+    await client.close();
+  });
+
+  test("using blocking queue consumers", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:queue:blocking";
+    await client.ioredis.del(key);
+
+    const queue = client.queue(key);
+    const start = Date.now();
+    expect(await queue.pop(1)).toBeNull();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+
+    setTimeout(() => queue.push("late"), 200);
+    expect(await queue.pop(5)).toEqual("late");
+
+    // the async iterator pulls one message per step
+    const consumer = queue.consume({ timeoutSeconds: 1 });
+    await queue.push(1, 2, 3);
+    const received: string[] = [];
+    for await (const message of consumer) {
+      received.push(message);
+      if (received.length == 3) {
+        break;
+      }
+    }
+    expect(received).toEqual(["1", "2", "3"]);
+
+    // at most two handlers run at once
+    let running = 0;
+    let maxRunning = 0;
+    const results: number[] = [];
+    const subscription = queue
+      .observe(
+        async (message) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          running--;
+          return Number(message) * 10;
+        },
+        { concurrency: 2, timeoutSeconds: 1 }
+      )
+      .subscribe((result) => results.push(result));
+    await queue.push(1, 2, 3, 4, 5);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    subscription.unsubscribe();
+
+    expect(results.sort()).toEqual([10, 20, 30, 40, 50]);
+    expect(maxRunning).toEqual(2);
+
+    await client.close();
+  });
+
+  test("using delayed queue helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:queue:delayed";
+    await client.invalidatePattern(`${key}*`);
+
+    const delayed = client.delayedQueue(key);
+    const queue = client.queue(key);
+    await delayed.pushDelayed("soon", 200);
+    await delayed.pushAt("later", new Date(Date.now() + 60000));
+    const cancelled = await delayed.pushDelayed("never", 100);
+    expect(await delayed.cancel(cancelled)).toBeTruthy();
+    expect(await delayed.size()).toEqual(2);
+
+    expect(await delayed.promote()).toEqual(0);
+    expect(await queue.size()).toEqual(0);
+
+    // several promoters race, each message is moved once
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const moved = await Promise.all([
+      delayed.promote(),
+      delayed.promote(),
+      delayed.promote(),
+    ]);
+    expect(moved.reduce((a, b) => a + b)).toEqual(1);
+    expect(await queue.pop()).toEqual("soon");
+    expect(await queue.pop()).toBeNull();
+    expect(await delayed.size()).toEqual(1);
+
+    await client.close();
+  });
+
+  test("using priority queue helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:queue:priority";
+    await client.ioredis.del(key, `${key}:items`, `${key}:seq`, `${key}:ready`);
+
+    const queue = client.priorityQueue(key);
+    await queue.push("low", 1);
+    const first = await queue.push("high-1", 10);
+    await queue.push("high-2", 10);
+    const normal = await queue.push("normal", 5);
+
+    expect(await queue.size()).toEqual(4);
+    expect(await queue.size(5, 10)).toEqual(3);
+    expect((await queue.peek())[0]).toEqual({
+      id: first,
+      priority: 10,
+      value: "high-1",
+    });
+
+    expect(await queue.setPriority(normal, 20)).toBeTruthy();
+    expect((await queue.pop())!.value).toEqual("normal");
+
+    const items = await queue.popMany(2);
+    expect(items.map((item) => item.value)).toEqual(["high-1", "high-2"]);
+
+    expect(await queue.pop(1)).toEqual(
+      expect.objectContaining({ value: "low", priority: 1 })
+    );
+    expect(await queue.pop()).toBeNull();
+    expect(await queue.setPriority(first, 1)).toBeFalsy();
+
+    // a waiting pop takes the next push, the ready list goes with the items
+    const waiting = queue.pop(2);
+    await queue.push("late", 3);
+    expect((await waiting)!.value).toEqual("late");
+    expect(await queue.remove(await queue.push("gone"))).toBeTruthy();
+    expect(await client.ioredis.exists(`${key}:ready`)).toEqual(0);
+
+    await client.close();
+  });
+
   test("using stack helper", async () => {
     const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
     expect(client.ioredis).not.toBeNull();
@@ -191,6 +1092,80 @@ describe("Redis Client", () => {
     await client.close();
   });
 
+  test("using stream helper", async () => {
+    const client = await createRedisClient({
+      url: "redis://127.0.0.1:6379/0",
+      keyPrefix: "app:",
+    });
+    expect(client.ioredis).not.toBeNull();
+
+    const key = "test:stream";
+    await client.ioredis.del(key);
+
+    const stream = client.stream(key, jsonCodec<number | string>());
+    const first = await stream.add({ user: "andy", amount: 10 });
+    await stream.add({ user: "bob", amount: 20 });
+    await stream.add({ user: "carl", amount: 30 }, { maxLen: 100 });
+    expect(await stream.length()).toEqual(3);
+
+    const entries = await stream.range("-", "+", 2);
+    expect(entries[0]).toEqual({
+      id: first,
+      fields: { user: "andy", amount: 10 },
+    });
+    expect((await stream.revRange("+", "-", 1))[0].fields.user).toEqual("carl");
+
+    expect(await stream.createGroup("billing", "0")).toBeTruthy();
+    expect(await stream.createGroup("billing", "0")).toBeFalsy();
+
+    const reader = stream.readGroup("billing", "worker1", {
+      count: 2,
+      timeoutSeconds: 1,
+    });
+    const received: string[] = [];
+    for await (const entry of reader) {
+      received.push(entry.fields.user as string);
+      if (received.length == 3) {
+        break;
+      }
+    }
+    expect(received).toEqual(["andy", "bob", "carl"]);
+    expect(await stream.ack("billing", first)).toEqual(1);
+
+    const pending = await stream.pending("billing");
+    expect(pending.count).toEqual(2);
+    expect(pending.consumers).toEqual({ worker1: 2 });
+
+    // worker1 died, worker2 takes its idle entries over
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const claimed = await stream.autoClaim("billing", "worker2", 50);
+    expect(claimed.entries.map((entry) => entry.fields.user)).toEqual([
+      "bob",
+      "carl",
+    ]);
+    const details = await stream.pendingEntries("billing");
+    expect(details.every((entry) => entry.consumer == "worker2")).toBeTruthy();
+    expect(details[0].deliveries).toEqual(2);
+
+    // the history is read past a full batch before the new entries
+    await stream.add({ user: "dave", amount: 40 });
+    const resumed = stream.readGroup("billing", "worker2", {
+      count: 1,
+      pending: true,
+      timeoutSeconds: 1,
+    });
+    const replayed: string[] = [];
+    for await (const entry of resumed) {
+      replayed.push(entry.fields.user as string);
+      if (replayed.length == 3) {
+        break;
+      }
+    }
+    expect(replayed).toEqual(["bob", "carl", "dave"]);
+
+    await client.close();
+  });
+
   test("using set helper", async () => {
     const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
     expect(client.ioredis).not.toBeNull();
@@ -273,4 +1248,217 @@ describe("Redis Client", () => {
 
     await client.close();
   });
+
+  test("using job queue helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.invalidatePattern("test:jobs:*");
+    const jobs = client.jobQueue("test:jobs");
+
+    const events: JobEvent[] = [];
+    const subscription = jobs.events().subscribe((event) => events.push(event));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    let calls = 0;
+    const worker = jobs.worker(
+      {
+        email: async (job, progress) => {
+          await progress(50);
+          return `sent to ${(job.data as { to: string }).to}`;
+        },
+        flaky: async () => {
+          calls++;
+          if (calls < 3) {
+            throw new Error(`failure ${calls}`);
+          }
+          return calls;
+        },
+        broken: async () => {
+          throw new Error("broken");
+        },
+      },
+      { concurrency: 2 }
+    );
+
+    // a broken record fails alone and the worker goes on
+    await client.ioredis.hset("test:jobs:job:broken", {
+      type: "email",
+      data: "{broken",
+    });
+    await client.queue("test:jobs:wait").push("broken");
+
+    const email = await jobs.add("email", { to: "andy" });
+    const flaky = await jobs.add("flaky", null, {
+      attempts: 3,
+      backoff: { type: "exponential", delayMs: 100 },
+    });
+    const broken = await jobs.add("broken", null, { attempts: 2 });
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    expect(await jobs.get(email)).toEqual(
+      expect.objectContaining({
+        status: "completed",
+        result: "sent to andy",
+        progress: 50,
+        attempts: 1,
+      })
+    );
+    expect(await jobs.get(flaky)).toEqual(
+      expect.objectContaining({ status: "completed", result: 3, attempts: 3 })
+    );
+    expect(await jobs.get(broken)).toEqual(
+      expect.objectContaining({
+        status: "failed",
+        error: "broken",
+        attempts: 2,
+      })
+    );
+
+    expect(await client.ioredis.hget("test:jobs:job:broken", "status")).toEqual(
+      "failed"
+    );
+
+    const completed = events.filter((event) => event.event == "completed");
+    expect(completed.map((event) => event.id).sort()).toEqual(
+      [email, flaky].sort()
+    );
+    expect(events.filter((event) => event.event == "retrying").length).toEqual(
+      3
+    );
+
+    await worker.close();
+    subscription.unsubscribe();
+    await client.close();
+  });
+
+  test("using scheduler helper", async () => {
+    const client = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.invalidatePattern("test:scheduler:*");
+    // two instances sharing the schedule
+    const runs: number[] = [];
+    const instances = [
+      client.scheduler("test:scheduler"),
+      client.scheduler("test:scheduler"),
+    ];
+    for (const instance of instances) {
+      instance.every("beat", 200, async (scheduledAt) => {
+        runs.push(scheduledAt);
+      });
+      instance.start(50);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await Promise.all(instances.map((instance) => instance.stop()));
+
+    expect(runs.length).toBeGreaterThanOrEqual(4);
+    expect(new Set(runs).size).toEqual(runs.length);
+    expect(runs.every((t) => t % 200 == 0)).toBeTruthy();
+
+    const state = await instances[0].state("beat");
+    expect(state.lastScheduledAt).toEqual(Math.max(...runs));
+    expect(state.nextRunAt).toBeGreaterThan(state.lastScheduledAt!);
+    expect(state.lastRunAt).toBeGreaterThanOrEqual(state.lastScheduledAt!);
+    // the claims do not outlive the runs by much
+    const claims = await client.ioredis.keys("test:scheduler:claim:beat:*");
+    expect(claims.length).toBeLessThan(runs.length);
+
+    // every missed run is replayed with the "all" policy
+    const later = client.scheduler("test:scheduler");
+    const replayed: number[] = [];
+    later.every(
+      "beat",
+      200,
+      async (scheduledAt) => {
+        replayed.push(scheduledAt);
+      },
+      { catchUp: "all" }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 700));
+    await later.tick();
+    expect(replayed.length).toBeGreaterThanOrEqual(3);
+    expect(replayed[0]).toEqual(Math.max(...runs) + 200);
+
+    expect(() => later.cron("beat", "* * * * *", async () => {})).toThrow();
+
+    // a slow task does not hold back the others
+    const busy = client.scheduler("test:scheduler:busy");
+    const beats: number[] = [];
+    busy.every("slow", 100, () => new Promise((r) => setTimeout(r, 600)));
+    busy.every("beat", 100, async (scheduledAt) => {
+      beats.push(scheduledAt);
+    });
+    busy.start(50);
+    await new Promise((resolve) => setTimeout(resolve, 700));
+    await busy.stop();
+    expect(beats.length).toBeGreaterThanOrEqual(4);
+    await client.close();
+  });
+
+  test("using geo helper", async () => {
+    const client = await createRedisClient({
+      url: "redis://127.0.0.1:6379/0",
+      keyPrefix: "test:",
+    });
+    expect(client.ioredis).not.toBeNull();
+
+    await client.ioredis.del("stores", "stores:meta");
+    const stores = client.geo<{ name: string }>("stores");
+    expect(
+      await stores.add(
+        "louvre",
+        { longitude: 2.3376, latitude: 48.8606 },
+        { name: "Louvre" }
+      )
+    ).toEqual(1);
+    await stores.add(
+      "eiffel",
+      { longitude: 2.2945, latitude: 48.8584 },
+      { name: "Eiffel Tower" }
+    );
+    await stores.add("versailles", { longitude: 2.1204, latitude: 48.8049 });
+
+    const nearby = await stores.search({
+      from: { longitude: 2.3522, latitude: 48.8566 },
+      radius: 5,
+      withMetadata: true,
+    });
+    expect(nearby.map((result) => result.member)).toEqual(["louvre", "eiffel"]);
+    expect(nearby[0].distance).toBeLessThan(nearby[1].distance);
+    expect(nearby[0].metadata).toEqual({ name: "Louvre" });
+    expect(nearby[0].longitude).toBeCloseTo(2.3376, 3);
+
+    const box = await stores.search({
+      from: "eiffel",
+      box: { width: 40, height: 40 },
+      order: "desc",
+      count: 2,
+    });
+    expect(box.map((result) => result.member)).toEqual([
+      "versailles",
+      "louvre",
+    ]);
+    expect(box[0].metadata).toBeUndefined();
+
+    const distance = await stores.distance("louvre", "eiffel", "m");
+    expect(distance).toBeGreaterThan(3000);
+    expect(distance).toBeLessThan(3500);
+    expect(await stores.distance("louvre", "nowhere")).toBeNull();
+
+    const [louvre, nowhere] = await stores.position("louvre", "nowhere");
+    expect(louvre!.latitude).toBeCloseTo(48.8606, 3);
+    expect(nowhere).toBeNull();
+
+    // the keys are prefixed like the other helpers
+    const raw = await createRedisClient({ url: "redis://127.0.0.1:6379/0" });
+    expect(await raw.ioredis.zcard("test:stores")).toEqual(3);
+    expect(await raw.ioredis.hlen("test:stores:meta")).toEqual(2);
+    await raw.close();
+
+    expect(await stores.remove("louvre")).toEqual(1);
+    expect(await stores.metadata("louvre")).toBeNull();
+    expect(await stores.metadata("eiffel")).toEqual({ name: "Eiffel Tower" });
+    await client.close();
+  });
 });
@@ -1,10 +1,553 @@
 import IORedis, { RedisKey, RedisOptions } from "ioredis";
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { filter, from, map, mergeMap, Observable, Subject } from "rxjs";
+import { Codec, jsonCodec, stringCodec } from "./codec";
+import { nextCronTime, parseCron } from "./cron";
+import {
+  CACHE_TAGS,
+  DELAYED_PROMOTE,
+  DELAYED_PUSH,
+  EXTEND_HOLDER,
+  EXTEND_LOCK,
+  INVALIDATE_TAG,
+  LEADERBOARD_SUM,
+  LEADERBOARD_WRITE,
+  PRIORITY_MOVE,
+  PRIORITY_POP,
+  PRIORITY_PUSH,
+  PRIORITY_REMOVE,
+  READ_LOCK_ACQUIRE,
+  RELEASE_LOCK,
+  RELIABLE_ACK,
+  RELIABLE_NACK,
+  RELIABLE_POP,
+  RELIABLE_REAP,
+  BLOOM_GROW,
+  RELIABLE_REQUEUE_DEAD,
+  RELIABLE_TOUCH,
+  SCHEDULE_ADVANCE,
+  SEMAPHORE_ACQUIRE,
+  SEMAPHORE_COUNT,
+  THROTTLE_FIXED_WINDOW,
+  THROTTLE_GCRA,
+  THROTTLE_SLIDING_LOG,
+  THROTTLE_SLIDING_WINDOW,
+  THROTTLE_TOKEN_BUCKET,
+  WRITE_LOCK_ACQUIRE,
+} from "./scripts";
+import {
+  acquire,
+  AcquireOptions,
+  bloomPositions,
+  bloomSize,
+  bucketOf,
+  bucketsBetween,
+  createLru,
+  TimeBucket,
+  unref,
+  watchdog,
+} from "./utils";
 
 export interface RedisConfig {
   url: string;
   keyPrefix?: string;
 }
 
+export interface CacheOptions<T> {
+  /** default time to live in seconds, no expiry when omitted */
+  ttl?: number;
+  codec?: Codec<T>;
+  /** seconds an expired value is still served while it is refreshed */
+  staleTtl?: number;
+  /** refresh before expiry with a probability scaled by this beta, 1 is a good start */
+  earlyExpiration?: number;
+  /** seconds a loader may hold the recompute lock, default 10 */
+  lockTtl?: number;
+  /** how long to wait for another process loading the value, default lockTtl */
+  lockWaitMs?: number;
+  /** default tags of the entry, see invalidateTag */
+  tags?: string[];
+}
+
+export interface CacheSetOptions {
+  /** time to live in seconds, overrides the default ttl */
+  ttl?: number;
+  /** tags of the entry, overrides the default tags */
+  tags?: string[];
+}
+
+/**
+ * W is what set takes, a cache without a codec writes numbers and
+ * Buffers as they are and reads them back as strings
+ */
+export interface Cache<T, W = T> {
+  get: () => Promise<T | null>;
+  set: (value: W, options?: CacheSetOptions) => Promise<void>;
+  del: () => Promise<boolean>;
+  /** read through, the loader fills the cache on a miss */
+  getOrLoad: (
+    loader: () => Promise<T>,
+    options?: CacheSetOptions
+  ) => Promise<T>;
+}
+
+export interface NearCacheOptions {
+  /** local entries kept at most, default 1000 */
+  maxEntries?: number;
+  /** local time to live in seconds, default 60 */
+  ttl?: number;
+  /** pub/sub channel for the invalidation messages */
+  channel?: string;
+}
+
+export interface CacheStats {
+  local: { hits: number; misses: number };
+  remote: { hits: number; misses: number };
+}
+
+export type ThrottleAlgorithm =
+  | "fixed-window"
+  | "sliding-log"
+  | "sliding-window"
+  | "token-bucket"
+  | "gcra";
+
+export interface ThrottleOptions {
+  /** fixed-window by default */
+  algorithm?: ThrottleAlgorithm;
+  /** calls allowed at once by token-bucket and gcra, maxValue by default */
+  burst?: number;
+}
+
+export interface ThrottleResult {
+  allowed: boolean;
+  /** calls left right now */
+  remaining: number;
+  /** milliseconds until the limit is fully restored */
+  resetMs: number;
+  /** milliseconds to wait before a denied call may be retried, 0 when allowed */
+  retryAfterMs: number;
+}
+
+export interface ReliableQueueOptions {
+  /** name of this consumer, host and pid by default */
+  consumer?: string;
+  /** seconds a popped message stays invisible until acked, default 30 */
+  visibilitySeconds?: number;
+  /** deliveries before a message goes to the dead letters, default 5 */
+  maxDeliveries?: number;
+}
+
+export interface ReliableMessage {
+  id: string;
+  body: string;
+  /** how many times the message was delivered, this one included */
+  deliveries: number;
+  /** the first error the message failed with */
+  error: string | null;
+}
+
+export interface ConsumeOptions {
+  /** seconds a single blocking pop waits before it is issued again, default 5 */
+  timeoutSeconds?: number;
+  /** messages taken at once, each on its own connection, default 1 */
+  concurrency?: number;
+}
+
+export interface Consumer<T> extends AsyncIterableIterator<T> {
+  close: () => Promise<void>;
+}
+
+type BlockingPop<T> = (
+  conn: IORedis,
+  timeoutSeconds: number
+) => Promise<T | null>;
+
+export interface PriorityItem {
+  id: string;
+  priority: number;
+  value: string;
+}
+
+export interface StreamEntry<V> {
+  id: string;
+  fields: Record<string, V>;
+}
+
+export interface StreamTrimOptions {
+  /** keep at most this many entries */
+  maxLen?: number;
+  /** drop the entries older than this id */
+  minId?: string;
+  /** let redis trim lazily, default true */
+  approximate?: boolean;
+}
+
+export interface StreamAddOptions extends StreamTrimOptions {
+  /** explicit entry id, "*" by default */
+  id?: string;
+}
+
+export interface ReadGroupOptions extends ConsumeOptions {
+  /** entries fetched per read, default 10 */
+  count?: number;
+  /** deliver the entries pending for this consumer first */
+  pending?: boolean;
+}
+
+export interface PendingEntry {
+  id: string;
+  consumer: string;
+  idleMs: number;
+  deliveries: number;
+}
+
+export interface SubscribeOptions<T> {
+  codec?: Codec<T>;
+  /** treat the name as a glob pattern, guessed from * ? [ by default */
+  pattern?: boolean;
+}
+
+export type KeyspaceEventName =
+  | "set"
+  | "del"
+  | "expire"
+  | "expired"
+  | "evicted"
+  | "rename_from"
+  | "rename_to"
+  | "incrby"
+  | "append"
+  | "hset"
+  | "hdel"
+  | "hincrby"
+  | "sadd"
+  | "srem"
+  | "zadd"
+  | "zrem"
+  | "lpush"
+  | "rpush"
+  | "lpop"
+  | "rpop"
+  | "xadd"
+  | (string & {});
+
+export interface KeyspaceEvent {
+  event: KeyspaceEventName;
+  /** the key without the keyPrefix */
+  key: string;
+}
+
+export interface WatchOptions {
+  /** turn the keyspace notifications on with CONFIG SET first */
+  configure?: boolean;
+}
+
+type MessageListener = (channel: string, message: Buffer) => void;
+
+export type JobStatus =
+  | "waiting"
+  | "active"
+  | "delayed"
+  | "completed"
+  | "failed";
+
+export interface JobBackoff {
+  type: "fixed" | "exponential";
+  delayMs: number;
+}
+
+export interface JobOptions {
+  /** tries before the job fails for good, default 1 */
+  attempts?: number;
+  backoff?: JobBackoff;
+}
+
+export interface Job<D = unknown> {
+  id: string;
+  type: string;
+  data: D;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  progress: number;
+  result?: unknown;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export type JobHandler<D = unknown> = (
+  job: Job<D>,
+  progress: (value: number) => Promise<void>
+) => Promise<unknown>;
+
+export interface JobEvent {
+  event: "active" | "progress" | "retrying" | "completed" | "failed";
+  id: string;
+  type: string;
+  progress?: number;
+  result?: unknown;
+  error?: string;
+}
+
+export interface JobWorkerOptions {
+  /** jobs run at once by this worker, default 1 */
+  concurrency?: number;
+  /** milliseconds to wait before the next attempt, overrides the job backoff */
+  backoff?: (attempts: number, err: Error) => number;
+}
+
+/**
+ * what to do with the runs missed while no instance was up:
+ * none skips them, last runs the latest once, all runs every one of them
+ */
+export type CatchUpPolicy = "none" | "last" | "all";
+
+export interface ScheduleOptions {
+  /** default "none" */
+  catchUp?: CatchUpPolicy;
+  /** most missed runs replayed at once with "all", default 100 */
+  maxCatchUp?: number;
+}
+
+export interface ScheduledTaskState {
+  /** the last scheduled time handled by any instance */
+  lastScheduledAt?: number;
+  lastRunAt?: number;
+  /** the instance of the last run */
+  lastRunBy?: string;
+  lastError?: string;
+  nextRunAt?: number;
+}
+
+export type ScheduledTask = (scheduledAt: number) => Promise<unknown>;
+
+export interface LeaderIdentity {
+  /** unique per election participant */
+  id: string;
+  host: string;
+  pid: number;
+  metadata?: Record<string, unknown>;
+  /** when the participant joined the election */
+  since: number;
+}
+
+export interface LeaderElectionOptions {
+  /** lease renewed while the leader is alive, default 10000 */
+  leaseMs?: number;
+  /** how often followers try to take over, a third of the lease by default */
+  retryMs?: number;
+  /** shown along the host and pid of the leader */
+  metadata?: Record<string, unknown>;
+  /** called when an attempt to take the lead fails, it is retried later */
+  onError?: (err: Error) => void;
+}
+
+export interface LeaderEvent {
+  event: "elected" | "revoked";
+  identity: LeaderIdentity;
+}
+
+export interface BloomFilterOptions {
+  /** items the filter is sized for, default 1000 */
+  expectedItems?: number;
+  /** chance of a false positive when full, default 0.01 */
+  falsePositiveRate?: number;
+  /** add a larger layer each time the last one fills up */
+  scalable?: boolean;
+  /** capacity factor of each new layer, default 2 */
+  growth?: number;
+  /** error rate factor of each new layer, default 0.5 */
+  tightening?: number;
+}
+
+export interface BloomFilterInfo {
+  capacity: number;
+  errorRate: number;
+  scalable: boolean;
+  /** bit size and hash count of each layer */
+  layers: { bits: number; hashes: number; capacity: number; count: number }[];
+}
+
+export interface ActivityOptions {
+  /** one bitmap per UTC day or hour, default "day" */
+  bucket?: "day" | "hour";
+  /** seconds the bitmaps are kept */
+  ttl?: number;
+}
+
+export interface Retention {
+  /** users active in the first range */
+  cohort: number;
+  /** users of the cohort active again in the second range */
+  retained: number;
+  rate: number;
+}
+
+export interface UniqueCounterOptions {
+  /** one HyperLogLog per UTC minute, hour or day instead of a single key */
+  bucket?: TimeBucket;
+  /**
+   * seconds a bucket is kept, a day of minutes, a week of hours
+   * or 400 days by default
+   */
+  ttl?: number;
+}
+
+export interface LeaderboardOptions {
+  /** "desc" ranks the highest score first, default "desc" */
+  order?: "desc" | "asc";
+  /**
+   * put the earliest achiever first among equal scores, default true,
+   * other scores than whole numbers up to 2^21 are then rejected
+   */
+  earliestFirst?: boolean;
+  /** start a new board every UTC day or week, weeks start on monday */
+  period?: "daily" | "weekly";
+  /** seconds a periodic board is kept after its period, one period by default */
+  keepSeconds?: number;
+}
+
+export interface LeaderboardEntry {
+  member: string;
+  score: number;
+  /** 1 for the first place */
+  rank: number;
+}
+
+export interface LeaderboardMergeOptions {
+  /** default "sum" */
+  aggregate?: "sum" | "min" | "max";
+  /** seconds the merged board is kept */
+  ttl?: number;
+}
+
+export type GeoUnit = "m" | "km" | "mi" | "ft";
+
+export interface GeoPosition {
+  longitude: number;
+  latitude: number;
+}
+
+export interface GeoSearchOptions {
+  /** a member or a position to search around */
+  from: string | GeoPosition;
+  /** search in a circle, or in a box when omitted */
+  radius?: number;
+  box?: { width: number; height: number };
+  /** unit of the radius, the box and the distances, default "km" */
+  unit?: GeoUnit;
+  /** "asc" returns the nearest first, default "asc" */
+  order?: "asc" | "desc";
+  count?: number;
+  /** attach the metadata of the members */
+  withMetadata?: boolean;
+}
+
+export interface GeoResult<M> extends GeoPosition {
+  member: string;
+  distance: number;
+  metadata?: M;
+}
+
+export interface LockOptions extends AcquireOptions {
+  /** keep extending the lease in the background until released */
+  autoRenew?: boolean;
+  /** renew period, a third of the lease by default */
+  renewIntervalMs?: number;
+  /** called when the lease could not be renewed */
+  onLost?: (err: Error) => void;
+  /** the value held in the key, a random uuid by default */
+  token?: string;
+}
+
+export interface Lock {
+  token: string;
+  /** aborted when the auto renewal fails and the lock may be taken over */
+  signal: AbortSignal;
+  release: () => Promise<boolean>;
+  extend: (seconds?: string | number) => Promise<boolean>;
+}
+
+const TAG_PREFIX = "tags:";
+
+const THROTTLE_SCRIPTS: Record<ThrottleAlgorithm, string> = {
+  "fixed-window": THROTTLE_FIXED_WINDOW,
+  "sliding-log": THROTTLE_SLIDING_LOG,
+  "sliding-window": THROTTLE_SLIDING_WINDOW,
+  "token-bucket": THROTTLE_TOKEN_BUCKET,
+  gcra: THROTTLE_GCRA,
+};
+
+/**
+ * the codec of the options, the overloads of cache(), publish()
+ * and subscribe() only let it be omitted for string values
+ * @param options
+ * @returns
+ */
+function codecOf<T>(options: { codec?: Codec<T> }): Codec<T> {
+  return options.codec ?? (stringCodec as Codec<unknown> as Codec<T>);
+}
+
+/**
+ * wrap an acquired lease into a lock, renewing it when asked to
+ * @param token
+ * @param ttl lease length in milliseconds
+ * @param release
+ * @param extend
+ * @param options
+ * @returns
+ */
+function leaseOf(
+  token: string,
+  ttl: number,
+  release: () => Promise<boolean>,
+  extend: (ms: number) => Promise<boolean>,
+  options?: LockOptions
+): Lock {
+  const renewal = options?.autoRenew
+    ? watchdog(() => extend(ttl), ttl, options.renewIntervalMs, options.onLost)
+    : undefined;
+
+  return {
+    token,
+    signal: renewal?.signal ?? new AbortController().signal,
+    release: async () => {
+      renewal?.stop();
+      return await release();
+    },
+    extend: async (seconds?: string | number) => {
+      return await extend(seconds === undefined ? ttl : Number(seconds) * 1000);
+    },
+  };
+}
+
+/**
+ * run fn while holding the lease and release it afterwards
+ * @param held
+ * @param name
+ * @param fn
+ * @returns the result of fn
+ */
+async function withLease<T>(
+  held: Lock | null,
+  name: string,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (!held) {
+    throw new Error(`${name} is held by someone else`);
+  }
+
+  try {
+    return await fn(held.signal);
+  } finally {
+    await held.release();
+  }
+}
+
 /**
  * create redis heler client object
  * @param cfg
@@ -36,229 +579,2983 @@ export async function createRedisClient(cfg: RedisConfig) {
         // console.log(`redis disconnected!`);
       });
 
+      for (const conn of connections) {
+        conn.disconnect();
+      }
       ioredis.disconnect();
     });
   }
 
   /**
-   * cache your data
-   * @param key
-   * @param value
+   * a dedicated connection, closed together with the client
+   * @returns
+   */
+  function duplicate(): IORedis {
+    const conn = ioredis.duplicate();
+    connections.add(conn);
+    conn.on("end", () => connections.delete(conn));
+    return conn;
+  }
+
+  /**
+   * run fn on an idle blocking connection, opening one when all are busy
+   * @param fn
    * @returns
    */
-  async function cache(key: RedisKey, value?: string | number | Buffer) {
-    async function get() {
-      return await ioredis.get(key);
+  async function blocking<R>(fn: (conn: IORedis) => Promise<R>): Promise<R> {
+    const conn = idleBlocking.pop() ?? duplicate();
+    try {
+      return await fn(conn);
+    } finally {
+      if (connections.has(conn)) {
+        idleBlocking.push(conn);
+      }
     }
+  }
 
-    async function set(value: string | number | Buffer) {
-      await ioredis.set(key, value);
+  /**
+   * pull messages with blocking pops on dedicated connections,
+   * at most options.concurrency pops run at once
+   * @param pop
+   * @param options
+   * @returns
+   */
+  function consumer<T>(
+    pop: BlockingPop<T>,
+    options: ConsumeOptions = {}
+  ): Consumer<T> {
+    const timeout = options.timeoutSeconds ?? 5;
+    const concurrency = options.concurrency ?? 1;
+    const opened = new Set<IORedis>();
+    const idle: IORedis[] = [];
+    const waiters: ((conn: IORedis | null) => void)[] = [];
+    let closed = false;
+
+    function checkout(): Promise<IORedis | null> {
+      const conn = idle.pop();
+      if (conn) {
+        return Promise.resolve(conn);
+      }
+      if (opened.size < concurrency) {
+        const opening = duplicate();
+        opened.add(opening);
+        return Promise.resolve(opening);
+      }
+      return new Promise((resolve) => waiters.push(resolve));
     }
 
-    if (value) {
-      await set(value);
+    function checkin(conn: IORedis) {
+      const waiter = waiters.shift();
+      waiter ? waiter(conn) : idle.push(conn);
+    }
+
+    async function take(conn: IORedis): Promise<T | null> {
+      while (!closed) {
+        try {
+          const item = await pop(conn, timeout);
+          if (item !== null) {
+            return item;
+          }
+        } catch (err) {
+          // closing interrupts the pending blocking pop
+          if (closed) {
+            return null;
+          }
+          throw err;
+        }
+      }
+      return null;
+    }
+
+    async function next(): Promise<IteratorResult<T>> {
+      const conn = closed ? null : await checkout();
+      if (!conn) {
+        return { done: true, value: undefined };
+      }
+
+      try {
+        const item = await take(conn);
+        return item === null
+          ? { done: true, value: undefined }
+          : { done: false, value: item };
+      } finally {
+        checkin(conn);
+      }
+    }
+
+    async function close() {
+      closed = true;
+      for (const waiter of waiters.splice(0)) {
+        waiter(null);
+      }
+      for (const conn of opened) {
+        conn.disconnect();
+      }
     }
 
     return {
-      get,
-      set,
+      next,
+      close,
+      return: async () => {
+        await close();
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
     };
   }
 
   /**
-   * the global lock
-   * @param key
-   * @param seconds
+   * emit the popped messages, passed through handler when given;
+   * a connection only pops again once its handler settled
+   * @param pop
+   * @param handler
+   * @param options
+   * @returns
+   */
+  function observer<T, R>(
+    pop: BlockingPop<T>,
+    handler: ((item: T) => R | Promise<R>) | undefined,
+    options: ConsumeOptions = {}
+  ): Observable<R | T> {
+    return new Observable<R | T>((subscriber) => {
+      const source = consumer(pop, options);
+      const loops = Array.from(
+        { length: options.concurrency ?? 1 },
+        async () => {
+          for await (const item of { [Symbol.asyncIterator]: () => source }) {
+            subscriber.next(handler ? await handler(item) : item);
+          }
+        }
+      );
+
+      Promise.all(loops).then(
+        () => subscriber.complete(),
+        (err) => subscriber.error(err)
+      );
+      return () => {
+        source.close();
+      };
+    });
+  }
+
+  /**
+   * the subscriber connection shared by every subscription,
+   * ioredis subscribes to the channels again after a reconnect
    * @returns
    */
-  async function lock(key: RedisKey, seconds?: string | number) {
-    async function get() {
-      return await ioredis.get(key);
+  function subscriberConnection(): IORedis {
+    if (!subscriber) {
+      const conn = duplicate();
+      conn.on("messageBuffer", (channel: Buffer, message: Buffer) => {
+        dispatch(`channel:${channel}`, channel, message);
+      });
+      conn.on(
+        "pmessageBuffer",
+        (pattern: Buffer, channel: Buffer, message: Buffer) => {
+          dispatch(`pattern:${pattern}`, channel, message);
+        }
+      );
+      conn.on("end", () => (subscriber = undefined));
+      subscriber = conn;
     }
+    return subscriber;
+  }
 
-    async function release() {
-      await ioredis.del(key);
+  function dispatch(id: string, channel: Buffer, message: Buffer) {
+    for (const listener of listeners.get(id) ?? []) {
+      listener(channel.toString(), message);
     }
+  }
 
-    const val = await ioredis.setnx(key, "locked");
-    if (val == 0) {
-      return null;
+  /**
+   * add a listener to a channel or pattern, the redis subscription
+   * is made for the first listener and dropped with the last one
+   * @param name
+   * @param pattern
+   * @param listener
+   * @returns a function removing the listener
+   */
+  async function listen(
+    name: string,
+    pattern: boolean,
+    listener: MessageListener
+  ): Promise<() => Promise<void>> {
+    const id = `${pattern ? "pattern" : "channel"}:${name}`;
+    const conn = subscriberConnection();
+    let group = listeners.get(id);
+    if (!group) {
+      group = new Set();
+      listeners.set(id, group);
+      group.add(listener);
+      await (pattern ? conn.psubscribe(name) : conn.subscribe(name));
     } else {
-      ioredis.expire(key, seconds ?? 30);
-      return {
-        release,
-      };
+      group.add(listener);
     }
+
+    return async () => {
+      if (!group!.delete(listener) || group!.size > 0) {
+        return;
+      }
+      listeners.delete(id);
+      if (connections.has(conn)) {
+        await (pattern ? conn.punsubscribe(name) : conn.unsubscribe(name));
+      }
+    };
   }
 
   /**
-   * a counter
-   * @param key
-   * @param value
+   * @param channel
+   * @param payload
+   * @param codec
+   * @returns the number of clients that received the message
+   */
+  async function publish(channel: string, payload: string): Promise<number>;
+  async function publish<T>(
+    channel: string,
+    payload: T,
+    codec: Codec<T>
+  ): Promise<number>;
+  async function publish<T>(
+    channel: string,
+    payload: T,
+    codec?: Codec<T>
+  ): Promise<number> {
+    return await ioredis.publish(channel, codecOf({ codec }).encode(payload));
+  }
+
+  /**
+   * messages of a channel or of the channels matching a pattern,
+   * the subscription ends when the last observer unsubscribes
+   * @param name
+   * @param options
    * @returns
    */
-  async function counter(key: RedisKey, value?: number) {
-    async function get(): Promise<number> {
-      const val = await ioredis.get(key);
-      return Number.parseInt(val ?? "0");
-    }
+  function subscribe(
+    name: string,
+    options?: SubscribeOptions<string>
+  ): Observable<string>;
+  function subscribe<T>(
+    name: string,
+    options: SubscribeOptions<T> & { codec: Codec<T> }
+  ): Observable<T>;
+  function subscribe<T>(
+    name: string,
+    options: SubscribeOptions<T> = {}
+  ): Observable<T> {
+    const codec = codecOf(options);
+    return messages(name, options.pattern).pipe(
+      map(({ message }) => codec.decode(message))
+    );
+  }
 
-    async function incr(c?: number): Promise<number> {
-      if (c) {
-        return await ioredis.incrby(key, c);
-      } else {
-        return await ioredis.incr(key);
-      }
-    }
+  /**
+   * raw messages along with the channel they were published to
+   * @param name
+   * @param pattern
+   * @returns
+   */
+  function messages(
+    name: string,
+    pattern: boolean = /[*?[]/.test(name)
+  ): Observable<{ channel: string; message: Buffer }> {
+    return new Observable((subscriber) => {
+      const unlisten = listen(name, pattern, (channel, message) =>
+        subscriber.next({ channel, message })
+      );
+      unlisten.catch((err) => subscriber.error(err));
 
-    async function decr(c?: number): Promise<number> {
-      if (c) {
-        return await ioredis.decrby(key, c);
-      } else {
-        return await ioredis.decr(key);
-      }
+      return () => {
+        unlisten.then((fn) => fn()).catch(() => {});
+      };
+    });
+  }
+
+  /**
+   * add the flags to notify-keyspace-events, keeping the ones already set
+   * @param flags K for keyspace channels, A for all the events
+   * @returns the flags now in effect
+   */
+  async function enableKeyspaceEvents(flags: string = "KA"): Promise<string> {
+    const [, current] = (await ioredis.config(
+      "GET",
+      "notify-keyspace-events"
+    )) as [string, string];
+    const merged = [...new Set([...current, ...flags])].join("");
+    if (merged != current) {
+      await ioredis.config("SET", "notify-keyspace-events", merged);
     }
+    return merged;
+  }
 
-    await ioredis.set(key, value ?? 0);
+  /**
+   * keyspace notifications of the keys matching the pattern
+   * @param pattern relative to the keyPrefix
+   * @param events only these events, all when omitted
+   * @param options
+   * @returns
+   */
+  function watch(
+    pattern: string,
+    events?: KeyspaceEventName[],
+    options: WatchOptions = {}
+  ): Observable<KeyspaceEvent> {
+    const prefix = ioredis.options.keyPrefix ?? "";
+    const channelPrefix = `__keyspace@${ioredis.options.db ?? 0}__:`;
 
-    return {
-      get,
-      incr,
-      decr,
-    };
+    const source = messages(`${channelPrefix}${prefix}${pattern}`, true).pipe(
+      map(({ channel, message }) => ({
+        event: message.toString(),
+        key: channel.slice(channelPrefix.length + prefix.length),
+      })),
+      filter(({ event }) => !events || events.includes(event))
+    );
+
+    return options.configure
+      ? from(enableKeyspaceEvents()).pipe(mergeMap(() => source))
+      : source;
   }
 
   /**
-   * limiting for some resources
+   * cache your data
    * @param key
-   * @param maxValue
-   * @param seconds
    * @param value
+   * @param options
    * @returns
    */
-  function throttle(
+  async function cache(
     key: RedisKey,
-    maxValue: number,
-    seconds: number = 60,
-    value?: number
-  ) {
-    async function get(): Promise<number> {
-      const val = await ioredis.get(key);
-      return Number.parseInt(val ?? "0");
+    value?: string | number | Buffer,
+    options?: CacheOptions<string>
+  ): Promise<Cache<string, string | number | Buffer>>;
+  async function cache<T>(
+    key: RedisKey,
+    value: T | undefined,
+    options: CacheOptions<T> & { codec: Codec<T> }
+  ): Promise<Cache<T>>;
+  async function cache<T>(
+    key: RedisKey,
+    value?: T,
+    options: CacheOptions<T> = {}
+  ): Promise<Cache<T>> {
+    const codec = codecOf(options);
+    const freshKey = `${key}:fresh`;
+    // the tags the entry was last written with
+    const tagsKey = `${key}:tags`;
+    const staleMs = Math.round((options.staleTtl ?? 0) * 1000);
+    // the fresh key marks the soft expiry and keeps how long loading took
+    const tracked = staleMs > 0 || !!options.earlyExpiration;
+    const lockTtl = options.lockTtl ?? 10;
+
+    async function get(): Promise<T | null> {
+      const raw = await ioredis.getBuffer(key);
+      return raw === null ? null : codec.decode(raw);
     }
 
-    async function incr(c?: number): Promise<boolean> {
-      let count = 0;
-      if (c) {
-        count = await ioredis.incrby(key, c);
-        if (count == 1) {
-          await ioredis.expire(key, seconds);
+    async function write(value: T, opts?: CacheSetOptions, loadMs = 0) {
+      const ttl = opts?.ttl ?? options.ttl;
+      const tags = opts?.tags ?? options.tags ?? [];
+      const ms = ttl ? Math.round(ttl * 1000) : 0;
+      const entryMs = ms ? ms + staleMs : 0;
+      const tagKeys = tags.map((tag) => `${TAG_PREFIX}${tag}`);
+
+      // the tags are swapped only while they are still the ones read,
+      // otherwise both are written again over the concurrent write
+      for (;;) {
+        const previousTags = await ioredis.smembers(tagsKey);
+        const multi = ioredis.multi();
+
+        if (!ms) {
+          multi.set(key, codec.encode(value));
+          // without a ttl the value never goes stale
+          if (tracked) {
+            multi.set(freshKey, loadMs);
+          }
+        } else if (!tracked) {
+          multi.set(key, codec.encode(value), "PX", ms);
+        } else {
+          multi
+            .set(key, codec.encode(value), "PX", ms + staleMs)
+            .set(freshKey, loadMs, "PX", ms);
         }
-      } else {
-        count = await ioredis.incr(key);
-        if (count == 1) {
-          await ioredis.expire(key, seconds);
+
+        const keys = [
+          tagsKey,
+          ...previousTags.map((tag) => `${TAG_PREFIX}${tag}`),
+          ...tagKeys,
+        ];
+        multi.eval(
+          CACHE_TAGS,
+          keys.length,
+          ...keys,
+          key,
+          entryMs,
+          previousTags.length,
+          ...previousTags,
+          ...tags
+        );
+        const replies = (await multi.exec()) ?? [];
+        if (replies[replies.length - 1]?.[1] !== 0) {
+          return;
         }
       }
+    }
+
+    async function set(value: T, opts?: CacheSetOptions) {
+      await write(value, opts);
+    }
+
+    async function del(): Promise<boolean> {
+      return (await ioredis.del(key, freshKey, tagsKey)) > 0;
+    }
+
+    async function load(
+      loader: () => Promise<T>,
+      opts?: CacheSetOptions
+    ): Promise<T> {
+      const start = Date.now();
+      const loaded = await loader();
+      await write(loaded, opts, Date.now() - start);
+      return loaded;
+    }
+
+    /**
+     * only the process holding the recompute lock calls the loader,
+     * the others wait for its value
+     * @param loader
+     * @param opts
+     * @returns
+     */
+    async function loadOnce(
+      loader: () => Promise<T>,
+      opts?: CacheSetOptions
+    ): Promise<T> {
+      return await singleFlight(key, async () => {
+        const held = await lock(`${key}:lock`, lockTtl);
+        if (held) {
+          try {
+            return await load(loader, opts);
+          } finally {
+            await held.release();
+          }
+        }
+
+        let loaded: T | null = null;
+        await acquire(async () => (loaded = await get()) !== null, {
+          waitMs: options.lockWaitMs ?? lockTtl * 1000,
+          retryDelayMs: 50,
+        });
+        return loaded ?? (await load(loader, opts));
+      });
+    }
+
+    /**
+     * refresh in the background unless someone else is already on it
+     * @param loader
+     * @param opts
+     */
+    function revalidate(loader: () => Promise<T>, opts?: CacheSetOptions) {
+      singleFlight(`${key}:refresh`, async () => {
+        const held = await lock(`${key}:lock`, lockTtl);
+        if (held) {
+          try {
+            return await load(loader, opts);
+          } finally {
+            await held.release();
+          }
+        }
+      }).catch(() => {});
+    }
+
+    /**
+     * read through, the loader fills the cache on a miss
+     * @param loader
+     * @param opts
+     * @returns
+     */
+    async function getOrLoad(
+      loader: () => Promise<T>,
+      opts?: CacheSetOptions
+    ): Promise<T> {
+      if (!tracked) {
+        const cached = await get();
+        return cached !== null ? cached : await loadOnce(loader, opts);
+      }
+
+      const [[, raw], [, loadMs], [, remaining]] = (await ioredis
+        .multi()
+        .getBuffer(key)
+        .get(freshKey)
+        .pttl(freshKey)
+        .exec()) as [
+        [Error | null, Buffer | null],
+        [Error | null, string | null],
+        [Error | null, number]
+      ];
+      if (raw === null) {
+        return await loadOnce(loader, opts);
+      }
+
+      const stale = loadMs === null;
+      // xfetch: the longer loading takes the likelier an early refresh
+      const early =
+        !stale &&
+        remaining >= 0 &&
+        !!options.earlyExpiration &&
+        -Number(loadMs) * options.earlyExpiration * Math.log(Math.random()) >=
+          remaining;
+      if (stale || early) {
+        revalidate(loader, opts);
+      }
+      return codec.decode(raw);
+    }
+
+    if (value !== undefined) {
+      await set(value);
+    }
+
+    return {
+      get,
+      set,
+      del,
+      getOrLoad,
+    };
+  }
+
+  /**
+   * an in-process lru in front of cache(), writes and deletes
+   * drop the local copies of every instance over pub/sub
+   * @param options
+   * @returns
+   */
+  async function nearCache(options: NearCacheOptions = {}) {
+    const channel = options.channel ?? "near-cache:invalidate";
+    const prefix = ioredis.options.keyPrefix ?? "";
+    const origin = randomUUID();
+    const local = createLru<unknown>(
+      options.maxEntries ?? 1000,
+      (options.ttl ?? 60) * 1000
+    );
+    const stats: CacheStats = {
+      local: { hits: 0, misses: 0 },
+      remote: { hits: 0, misses: 0 },
+    };
+
+    const unlisten = await listen(channel, false, (_, message) => {
+      let from: unknown;
+      let key: unknown;
+      try {
+        ({ from, key } = JSON.parse(message.toString()));
+      } catch {
+        // not an invalidation message
+        return;
+      }
+      if (from == origin) {
+        return;
+      }
+      if (key === null) {
+        local.clear();
+      } else if (typeof key == "string") {
+        local.remove(key);
+      }
+    });
+
+    /**
+     * tell the other instances to drop the key, or everything when null
+     * @param key
+     */
+    async function publish(key: string | null) {
+      await ioredis.publish(channel, JSON.stringify({ from: origin, key }));
+    }
+
+    async function entry(
+      key: RedisKey,
+      value?: string,
+      opts?: CacheOptions<string>
+    ): Promise<Cache<string>>;
+    async function entry<T>(
+      key: RedisKey,
+      value: T | undefined,
+      opts: CacheOptions<T> & { codec: Codec<T> }
+    ): Promise<Cache<T>>;
+    async function entry<T>(
+      key: RedisKey,
+      value?: T,
+      opts: CacheOptions<T> = {}
+    ): Promise<Cache<T>> {
+      const remote = await cache(key, undefined, {
+        ...opts,
+        codec: codecOf(opts),
+      });
+      const id = `${prefix}${key}`;
+
+      async function get(): Promise<T | null> {
+        const hit = local.get(id);
+        if (hit !== undefined) {
+          stats.local.hits++;
+          return hit as T;
+        }
+        stats.local.misses++;
+
+        const val = await remote.get();
+        if (val === null) {
+          stats.remote.misses++;
+        } else {
+          stats.remote.hits++;
+          local.set(id, val);
+        }
+        return val;
+      }
+
+      async function set(value: T, setOpts?: CacheSetOptions) {
+        await remote.set(value, setOpts);
+        local.set(id, value);
+        await publish(id);
+      }
+
+      async function del(): Promise<boolean> {
+        local.remove(id);
+        const removed = await remote.del();
+        await publish(id);
+        return removed;
+      }
+
+      async function getOrLoad(
+        loader: () => Promise<T>,
+        setOpts?: CacheSetOptions
+      ): Promise<T> {
+        const hit = local.get(id);
+        if (hit !== undefined) {
+          stats.local.hits++;
+          return hit as T;
+        }
+        stats.local.misses++;
+
+        let loaded = false;
+        const val = await remote.getOrLoad(async () => {
+          loaded = true;
+          return await loader();
+        }, setOpts);
+        local.set(id, val);
+        if (loaded) {
+          stats.remote.misses++;
+          await publish(id);
+        } else {
+          stats.remote.hits++;
+        }
+        return val;
+      }
+
+      if (value !== undefined) {
+        await set(value);
+      }
+
+      return {
+        get,
+        set,
+        del,
+        getOrLoad,
+      };
+    }
+
+    async function invalidateLocal(tag: string): Promise<number> {
+      const removed = await invalidateTag(tag);
+      local.clear();
+      await publish(null);
+      return removed;
+    }
+
+    async function invalidateLocalPattern(
+      pattern: string,
+      count?: number
+    ): Promise<number> {
+      const removed = await invalidatePattern(pattern, count);
+      local.clear();
+      await publish(null);
+      return removed;
+    }
+
+    function getStats(): CacheStats {
+      return {
+        local: { ...stats.local },
+        remote: { ...stats.remote },
+      };
+    }
+
+    async function close() {
+      await unlisten();
+      local.clear();
+    }
+
+    return {
+      cache: entry,
+      invalidateTag: invalidateLocal,
+      invalidatePattern: invalidateLocalPattern,
+      stats: getStats,
+      clear: local.clear,
+      close,
+    };
+  }
+
+  /**
+   * remove every cache entry written with the tag
+   * @param tag
+   * @returns the number of removed entries
+   */
+  async function invalidateTag(tag: string): Promise<number> {
+    const tagKey = `${TAG_PREFIX}${tag}`;
+    const entries = await ioredis.smembers(tagKey);
+    if (!entries.length) {
+      return 0;
+    }
+
+    const keys = entries.flatMap((entry) => [
+      entry,
+      `${entry}:fresh`,
+      `${entry}:tags`,
+    ]);
+    const count = (await ioredis.eval(
+      INVALIDATE_TAG,
+      keys.length + 1,
+      tagKey,
+      ...keys,
+      ...entries
+    )) as number;
+    // the set changed since it was read, read it again
+    return count < 0 ? invalidateTag(tag) : count;
+  }
+
+  /**
+   * remove every key matching the glob pattern, in batches of SCAN
+   * @param pattern relative to the keyPrefix
+   * @param count
+   * @returns the number of removed keys
+   */
+  async function invalidatePattern(
+    pattern: string,
+    count: number = 100
+  ): Promise<number> {
+    const prefix = ioredis.options.keyPrefix ?? "";
+    let cursor = "0";
+    let removed = 0;
+    do {
+      const [next, keys] = await ioredis.scan(
+        cursor,
+        "MATCH",
+        `${prefix}${pattern}`,
+        "COUNT",
+        count
+      );
+      cursor = next;
+      if (keys.length > 0) {
+        // scan returns full keys, while unlink adds the prefix again
+        removed += await ioredis.unlink(
+          ...keys.map((key) => key.slice(prefix.length))
+        );
+      }
+    } while (cursor != "0");
+    return removed;
+  }
+
+  /**
+   * the global lock, owned by an unique token
+   * @param key
+   * @param seconds
+   * @param options wait for the lock instead of giving up at once
+   * @returns null when the lock is held by someone else
+   */
+  async function lock(
+    key: RedisKey,
+    seconds?: string | number,
+    options?: LockOptions
+  ): Promise<Lock | null> {
+    const token = options?.token ?? randomUUID();
+    const ttl = Number(seconds ?? 30) * 1000;
+
+    const locked = await acquire(async () => {
+      return (await ioredis.set(key, token, "PX", ttl, "NX")) == "OK";
+    }, options);
+
+    if (!locked) {
+      return null;
+    }
+
+    return leaseOf(
+      token,
+      ttl,
+      async () => (await ioredis.eval(RELEASE_LOCK, 1, key, token)) == 1,
+      async (ms) => (await ioredis.eval(EXTEND_LOCK, 1, key, token, ms)) == 1,
+      options
+    );
+  }
+
+  /**
+   * run fn while holding the lock, the lease is renewed until fn settles
+   * @param key
+   * @param fn receives a signal aborted when the lock is lost
+   * @param seconds
+   * @param options
+   * @returns the result of fn
+   */
+  async function withLock<T>(
+    key: RedisKey,
+    fn: (signal: AbortSignal) => Promise<T>,
+    seconds?: string | number,
+    options?: LockOptions
+  ): Promise<T> {
+    const held = await lock(key, seconds, { autoRenew: true, ...options });
+    return await withLease(held, `lock ${key}`, fn);
+  }
+
+  /**
+   * elect one leader among the instances sharing the name, the leader
+   * keeps its lease renewed and the followers take over when it lapses
+   * @param name
+   * @param options
+   * @returns
+   */
+  function leaderElection(name: string, options: LeaderElectionOptions = {}) {
+    const key = `${name}:leader`;
+    const leaseMs = options.leaseMs ?? 10000;
+    const identity: LeaderIdentity = {
+      id: randomUUID(),
+      host: hostname(),
+      pid: process.pid,
+      metadata: options.metadata,
+      since: Date.now(),
+    };
+    const changes = new Subject<LeaderEvent>();
+    let held: Lock | null = null;
+    let closed = false;
+
+    function revoked() {
+      held = null;
+      changes.next({ event: "revoked", identity });
+    }
+
+    async function campaign() {
+      if (held || closed) {
+        return;
+      }
+
+      const token = JSON.stringify(identity);
+      let lease: Lock | null;
+      try {
+        lease = await lock(key, leaseMs / 1000, {
+          token,
+          autoRenew: true,
+          onLost: () => held?.signal.aborted && revoked(),
+        });
+      } catch (err) {
+        // the lease may be taken already, give it back rather than
+        // hold it without renewing it
+        await ioredis.eval(RELEASE_LOCK, 1, key, token).catch(() => {});
+        throw err;
+      }
+      if (!lease) {
+        return;
+      }
+      if (closed) {
+        await lease.release();
+        return;
+      }
+      held = lease;
+      changes.next({ event: "elected", identity });
+    }
+
+    // one campaign at a time, they share the token so an overlapping
+    // one could release the lease another has just won
+    let campaigning: Promise<void> | undefined;
+
+    function run() {
+      if (campaigning) {
+        return;
+      }
+      campaigning = campaign()
+        .catch((err) => options.onError?.(err))
+        .finally(() => (campaigning = undefined));
+    }
+
+    const timer = setInterval(run, options.retryMs ?? leaseMs / 3);
+    unref(timer);
+    run();
+
+    /**
+     * @returns true while this instance holds the lease
+     */
+    function isLeader(): boolean {
+      return held != null && !held.signal.aborted;
+    }
+
+    /**
+     * @returns the identity of the current leader, null when there is none
+     */
+    async function leader(): Promise<LeaderIdentity | null> {
+      const raw = await ioredis.get(key);
+      return raw === null ? null : JSON.parse(raw);
+    }
+
+    /**
+     * the elected and revoked events of this instance
+     * @returns
+     */
+    function events(): Observable<LeaderEvent> {
+      return changes.asObservable();
+    }
+
+    /**
+     * leave the election, giving up the leadership at once
+     */
+    async function close(): Promise<void> {
+      closed = true;
+      clearInterval(timer);
+      await campaigning;
+      const lease = held;
+      if (lease) {
+        held = null;
+        await lease.release();
+        changes.next({ event: "revoked", identity });
+      }
+      changes.complete();
+    }
+
+    return {
+      identity,
+      isLeader,
+      leader,
+      events,
+      close,
+    };
+  }
+
+  /**
+   * a counting semaphore, permits of crashed holders expire after seconds
+   * @param key
+   * @param permits
+   * @param seconds
+   * @returns
+   */
+  function semaphore(
+    key: RedisKey,
+    permits: number,
+    seconds?: string | number
+  ) {
+    const ttl = Number(seconds ?? 30) * 1000;
+
+    async function acquirePermit(options?: LockOptions): Promise<Lock | null> {
+      const token = randomUUID();
+      const acquired = await acquire(async () => {
+        const val = await ioredis.eval(
+          SEMAPHORE_ACQUIRE,
+          1,
+          key,
+          token,
+          permits,
+          ttl
+        );
+        return val == 1;
+      }, options);
+
+      if (!acquired) {
+        return null;
+      }
+
+      return leaseOf(
+        token,
+        ttl,
+        async () => (await ioredis.zrem(key, token)) == 1,
+        async (ms) =>
+          (await ioredis.eval(EXTEND_HOLDER, 1, key, token, ms)) == 1,
+        options
+      );
+    }
+
+    async function withPermit<T>(
+      fn: (signal: AbortSignal) => Promise<T>,
+      options?: LockOptions
+    ): Promise<T> {
+      const held = await acquirePermit({ autoRenew: true, ...options });
+      return await withLease(held, `semaphore ${key}`, fn);
+    }
+
+    /**
+     * @returns the permits held, expired on the redis clock
+     */
+    async function count(): Promise<number> {
+      return (await ioredis.eval(SEMAPHORE_COUNT, 1, key)) as number;
+    }
+
+    return {
+      acquire: acquirePermit,
+      withPermit,
+      count,
+    };
+  }
+
+  /**
+   * a read/write lock, waiting writers keep new readers out
+   * @param key
+   * @param seconds
+   * @returns
+   */
+  function rwLock(key: RedisKey, seconds?: string | number) {
+    const ttl = Number(seconds ?? 30) * 1000;
+    const readersKey = `${key}:readers`;
+    const writerKey = `${key}:writer`;
+    const waitingKey = `${key}:waiting`;
+
+    async function acquireRead(options?: LockOptions): Promise<Lock | null> {
+      const token = randomUUID();
+      const acquired = await acquire(async () => {
+        const val = await ioredis.eval(
+          READ_LOCK_ACQUIRE,
+          3,
+          readersKey,
+          writerKey,
+          waitingKey,
+          token,
+          ttl
+        );
+        return val == 1;
+      }, options);
+
+      if (!acquired) {
+        return null;
+      }
+
+      return leaseOf(
+        token,
+        ttl,
+        async () => (await ioredis.zrem(readersKey, token)) == 1,
+        async (ms) =>
+          (await ioredis.eval(EXTEND_HOLDER, 1, readersKey, token, ms)) == 1,
+        options
+      );
+    }
+
+    async function acquireWrite(options?: LockOptions): Promise<Lock | null> {
+      const token = randomUUID();
+      // the intent outlives a couple of retries of a waiting writer
+      const intentMs = Math.max((options?.retryDelayMs ?? 100) * 3, 1000);
+      const acquired = await acquire(async () => {
+        const val = await ioredis.eval(
+          WRITE_LOCK_ACQUIRE,
+          3,
+          readersKey,
+          writerKey,
+          waitingKey,
+          token,
+          ttl,
+          intentMs
+        );
+        return val == 1;
+      }, options);
+
+      if (!acquired) {
+        await ioredis.zrem(waitingKey, token);
+        return null;
+      }
+
+      return leaseOf(
+        token,
+        ttl,
+        async () =>
+          (await ioredis.eval(RELEASE_LOCK, 1, writerKey, token)) == 1,
+        async (ms) =>
+          (await ioredis.eval(EXTEND_LOCK, 1, writerKey, token, ms)) == 1,
+        options
+      );
+    }
+
+    async function withRead<T>(
+      fn: (signal: AbortSignal) => Promise<T>,
+      options?: LockOptions
+    ): Promise<T> {
+      const held = await acquireRead({ autoRenew: true, ...options });
+      return await withLease(held, `read lock ${key}`, fn);
+    }
+
+    async function withWrite<T>(
+      fn: (signal: AbortSignal) => Promise<T>,
+      options?: LockOptions
+    ): Promise<T> {
+      const held = await acquireWrite({ autoRenew: true, ...options });
+      return await withLease(held, `write lock ${key}`, fn);
+    }
+
+    return {
+      acquireRead,
+      acquireWrite,
+      withRead,
+      withWrite,
+    };
+  }
+
+  /**
+   * a counter
+   * @param key
+   * @param value
+   * @returns
+   */
+  async function counter(key: RedisKey, value?: number) {
+    async function get(): Promise<number> {
+      const val = await ioredis.get(key);
+      return Number.parseInt(val ?? "0");
+    }
+
+    async function incr(c?: number): Promise<number> {
+      if (c) {
+        return await ioredis.incrby(key, c);
+      } else {
+        return await ioredis.incr(key);
+      }
+    }
+
+    async function decr(c?: number): Promise<number> {
+      if (c) {
+        return await ioredis.decrby(key, c);
+      } else {
+        return await ioredis.decr(key);
+      }
+    }
+
+    await ioredis.set(key, value ?? 0);
+
+    return {
+      get,
+      incr,
+      decr,
+    };
+  }
+
+  /**
+   * an approximate count of distinct elements on HyperLogLog,
+   * optionally split into UTC time buckets
+   * @param key
+   * @param options
+   * @returns
+   */
+  function uniqueCounter(key: RedisKey, options: UniqueCounterOptions = {}) {
+    const bucket = options.bucket;
+    const ttl =
+      options.ttl ??
+      (bucket &&
+        { minute: 24 * 3600, hour: 7 * 24 * 3600, day: 400 * 24 * 3600 }[
+          bucket
+        ]);
+
+    function keyOf(time: Date | number) {
+      return bucket ? `${key}:${bucketOf(time, bucket)}` : key;
+    }
+
+    /**
+     * @param at the time of the bucket
+     * @param elements
+     * @returns true when the count changed
+     */
+    async function addAt(
+      at: Date | number,
+      ...elements: (string | number | Buffer)[]
+    ): Promise<boolean> {
+      const bucketKey = keyOf(at);
+      const multi = ioredis.multi().pfadd(bucketKey, ...elements);
+      if (ttl) {
+        multi.expire(bucketKey, ttl);
+      }
+      const [[, changed]] = (await multi.exec()) as [Error | null, number][];
+      return changed == 1;
+    }
+
+    async function add(
+      ...elements: (string | number | Buffer)[]
+    ): Promise<boolean> {
+      return await addAt(Date.now(), ...elements);
+    }
+
+    /**
+     * @param at the time of the bucket
+     * @returns
+     */
+    async function count(at: Date | number = Date.now()): Promise<number> {
+      return await ioredis.pfcount(keyOf(at));
+    }
+
+    function keysBetween(from: Date | number, to: Date | number) {
+      if (!bucket) {
+        throw new Error("ranges need a bucketed unique counter");
+      }
+      return bucketsBetween(from, to, bucket).map((b) => `${key}:${b}`);
+    }
+
+    /**
+     * @param from
+     * @param to
+     * @returns the distinct elements over the buckets of the range
+     */
+    async function countRange(
+      from: Date | number,
+      to: Date | number
+    ): Promise<number> {
+      const keys = keysBetween(from, to);
+      // PFCOUNT needs a key, an empty range has nothing to count
+      return keys.length ? await ioredis.pfcount(...keys) : 0;
+    }
+
+    /**
+     * keep the union of the buckets of the range, e.g. to roll days into a month
+     * @param dest
+     * @param from
+     * @param to
+     * @param seconds ttl of the merged key
+     * @returns the distinct elements of the merged key
+     */
+    async function merge(
+      dest: RedisKey,
+      from: Date | number,
+      to: Date | number,
+      seconds?: number
+    ): Promise<number> {
+      const keys = keysBetween(from, to);
+      if (!keys.length) {
+        throw new Error("the range to merge is empty, from is after to");
+      }
+      const multi = ioredis.multi().pfmerge(dest, ...keys);
+      if (seconds) {
+        multi.expire(dest, seconds);
+      }
+      await multi.exec();
+      return await ioredis.pfcount(dest);
+    }
+
+    return {
+      add,
+      addAt,
+      count,
+      countRange,
+      merge,
+    };
+  }
+
+  /**
+   * limiting for some resources
+   * @param key
+   * @param maxValue
+   * @param seconds
+   * @param options
+   * @returns
+   */
+  function throttle(
+    key: RedisKey,
+    maxValue: number,
+    seconds: number = 60,
+    options: ThrottleOptions = {}
+  ) {
+    const script = THROTTLE_SCRIPTS[options.algorithm ?? "fixed-window"];
+    const burst = options.burst ?? maxValue;
+    const bucket =
+      options.algorithm == "token-bucket" || options.algorithm == "gcra";
+
+    /**
+     * take c calls from the limit when they fit
+     * @param c
+     * @returns
+     */
+    async function consume(c: number = 1): Promise<ThrottleResult> {
+      const [allowed, remaining, resetMs, retryAfterMs] = (await ioredis.eval(
+        script,
+        1,
+        key,
+        maxValue,
+        seconds * 1000,
+        c,
+        burst,
+        randomUUID()
+      )) as number[];
+      return {
+        allowed: allowed == 1,
+        remaining,
+        resetMs,
+        retryAfterMs,
+      };
+    }
+
+    /**
+     * the calls used up in the current window
+     * @returns
+     */
+    async function get(): Promise<number> {
+      const { remaining } = await consume(0);
+      return Math.max(0, (bucket ? burst : maxValue) - remaining);
+    }
+
+    /**
+     * @param c
+     * @returns true when the limit is exceeded
+     */
+    async function incr(c?: number): Promise<boolean> {
+      return !(await consume(c)).allowed;
+    }
+
+    async function reset() {
+      await ioredis.del(key);
+    }
+
+    return {
+      get,
+      incr,
+      consume,
+      reset,
+    };
+  }
+
+  /**
+   * bits op
+   * @param key
+   * @returns
+   */
+  function bits(key: RedisKey) {
+    async function get(offset: string | number): Promise<number> {
+      return await ioredis.getbit(key, offset);
+    }
+
+    async function set(...offset: Array<number>) {
+      if (Array.isArray(offset)) {
+        for (let o of offset) {
+          await ioredis.setbit(key, o, 1);
+        }
+      } else {
+        await ioredis.setbit(key, offset, 1);
+      }
+    }
+
+    async function unset(...offset: Array<number>) {
+      if (Array.isArray(offset)) {
+        for (let o of offset) {
+          await ioredis.setbit(key, o, 0);
+        }
+      } else {
+        await ioredis.setbit(key, offset, 0);
+      }
+    }
+
+    async function count(): Promise<number> {
+      return await ioredis.bitcount(key);
+    }
+
+    return {
+      get,
+      set,
+      unset,
+      count,
+    };
+  }
+
+  /**
+   * a bloom filter on bitmaps, the parameters are saved with the filter
+   * so every process opens it with the first settings
+   * @param key
+   * @param options
+   * @returns
+   */
+  function bloomFilter(key: RedisKey, options: BloomFilterOptions = {}) {
+    const metaKey = `${key}:meta`;
+    let params:
+      | Promise<{
+          capacity: number;
+          errorRate: number;
+          scalable: boolean;
+          growth: number;
+          tightening: number;
+        }>
+      | undefined;
+
+    function open() {
+      params ??= (async () => {
+        const defaults = {
+          capacity: options.expectedItems ?? 1000,
+          errorRate: options.falsePositiveRate ?? 0.01,
+          scalable: options.scalable ? 1 : 0,
+          growth: options.growth ?? 2,
+          tightening: options.tightening ?? 0.5,
+        };
+        const multi = ioredis.multi();
+        for (const [field, value] of Object.entries(defaults)) {
+          multi.hsetnx(metaKey, field, value);
+        }
+        await multi.exec();
+
+        const saved = await ioredis.hgetall(metaKey);
+        return {
+          capacity: Number(saved.capacity),
+          errorRate: Number(saved.errorRate),
+          scalable: saved.scalable == "1",
+          growth: Number(saved.growth),
+          tightening: Number(saved.tightening),
+        };
+      })().catch((err) => {
+        params = undefined;
+        throw err;
+      });
+      return params;
+    }
+
+    /**
+     * the key and size of every layer in use
+     * @returns
+     */
+    async function layers() {
+      const p = await open();
+      const count = p.scalable
+        ? Number((await ioredis.hget(metaKey, "layers")) ?? 1)
+        : 1;
+
+      return Array.from({ length: count }, (_, i) => {
+        // the error rates of the layers add up to the one asked for
+        const errorRate = p.scalable
+          ? p.errorRate * (1 - p.tightening) * p.tightening ** i
+          : p.errorRate;
+        const capacity = Math.round(p.capacity * p.growth ** i);
+        return {
+          key: i == 0 ? `${key}` : `${key}:${i}`,
+          capacity,
+          ...bloomSize(capacity, errorRate),
+        };
+      });
+    }
+
+    /**
+     * @param op GET or SET
+     * @param layer
+     * @param items
+     * @returns the previous bits of each item
+     */
+    function bitfield(
+      op: "GET" | "SET",
+      layer: { bits: number; hashes: number },
+      items: (string | Buffer)[]
+    ): (string | number)[] {
+      return items.flatMap((item) =>
+        bloomPositions(item, layer.bits, layer.hashes).flatMap((offset) =>
+          op == "GET" ? ["GET", "u1", offset] : ["SET", "u1", offset, 1]
+        )
+      );
+    }
+
+    /**
+     * @param all
+     * @param items
+     * @returns whether all the bits of each item are set, per layer
+     */
+    async function lookup(
+      all: Awaited<ReturnType<typeof layers>>,
+      items: (string | Buffer)[]
+    ): Promise<boolean[][]> {
+      const pipeline = ioredis.pipeline();
+      for (const layer of all) {
+        pipeline.call("BITFIELD", layer.key, ...bitfield("GET", layer, items));
+      }
+      const replies = (await pipeline.exec()) ?? [];
+
+      return replies.map(([err, reply], i) => {
+        if (err) {
+          throw err;
+        }
+        const values = reply as number[];
+        const hashes = all[i].hashes;
+        return items.map((_, j) =>
+          values.slice(j * hashes, (j + 1) * hashes).every((bit) => bit == 1)
+        );
+      });
+    }
+
+    /**
+     * @param items
+     * @returns true for the items that were not in the filter yet
+     */
+    async function add(...items: (string | Buffer)[]): Promise<boolean[]> {
+      if (!items.length) {
+        return [];
+      }
+
+      const all = await layers();
+      const seen = all.length > 1 ? await lookup(all.slice(0, -1), items) : [];
+      const fresh = items.filter((_, j) => !seen.some((found) => found[j]));
+
+      const last = all[all.length - 1];
+      const added = new Set<string | Buffer>();
+      if (fresh.length) {
+        const previous = (await ioredis.call(
+          "BITFIELD",
+          last.key,
+          ...bitfield("SET", last, fresh)
+        )) as number[];
+        fresh.forEach((item, j) => {
+          const bits = previous.slice(j * last.hashes, (j + 1) * last.hashes);
+          if (bits.some((bit) => bit == 0)) {
+            added.add(item);
+          }
+        });
+      }
+
+      if (added.size) {
+        const count = await ioredis.hincrby(
+          metaKey,
+          `count:${all.length - 1}`,
+          added.size
+        );
+        if (count >= last.capacity && (await open()).scalable) {
+          await ioredis.eval(BLOOM_GROW, 1, metaKey, all.length);
+        }
+      }
+      return items.map((item) => added.has(item));
+    }
+
+    /**
+     * @param items
+     * @returns false for the items surely never added
+     */
+    async function mightContain(
+      ...items: (string | Buffer)[]
+    ): Promise<boolean[]> {
+      if (!items.length) {
+        return [];
+      }
+      const found = await lookup(await layers(), items);
+      return items.map((_, j) => found.some((layer) => layer[j]));
+    }
+
+    async function info(): Promise<BloomFilterInfo> {
+      const p = await open();
+      const meta = await ioredis.hgetall(metaKey);
+      return {
+        capacity: p.capacity,
+        errorRate: p.errorRate,
+        scalable: p.scalable,
+        layers: (await layers()).map((layer, i) => ({
+          bits: layer.bits,
+          hashes: layer.hashes,
+          capacity: layer.capacity,
+          count: Number(meta[`count:${i}`] ?? 0),
+        })),
+      };
+    }
+
+    /**
+     * drop the filter with its saved parameters
+     */
+    async function clear(): Promise<number> {
+      const keys = (await layers()).map((layer) => layer.key);
+      params = undefined;
+      return await ioredis.del(...keys, metaKey);
+    }
+
+    return {
+      add,
+      mightContain,
+      info,
+      clear,
+    };
+  }
+
+  /**
+   * user activity bitmaps, one per UTC day or hour with the user ids
+   * as offsets, combined over date ranges with BITOP
+   * @param key
+   * @param options
+   * @returns
+   */
+  function activity(key: RedisKey, options: ActivityOptions = {}) {
+    const bucket = options.bucket ?? "day";
+    const dayMs = 24 * 3600 * 1000;
+
+    function keyOf(time: Date | number) {
+      return `${key}:${bucketOf(time, bucket)}`;
+    }
+
+    function keysBetween(from: Date | number, to: Date | number) {
+      return bucketsBetween(from, to, bucket).map((b) => `${key}:${b}`);
+    }
+
+    /**
+     * run fn on the combination of the bitmaps, kept in a temporary key
+     * @param op
+     * @param sources none for an empty range
+     * @param fn
+     * @returns the result of fn
+     */
+    async function combined<R>(
+      op: "OR" | "AND",
+      sources: string[],
+      fn: (tmp: string) => Promise<R>
+    ): Promise<R> {
+      const tmp = `${key}:tmp:${randomUUID()}`;
+      // BITOP needs a source, without any fn sees an empty bitmap
+      if (sources.length) {
+        // the ttl cleans up after a crash before the delete
+        await ioredis
+          .multi()
+          .bitop(op, tmp, ...sources)
+          .pexpire(tmp, 60000)
+          .exec();
+      }
+      try {
+        return await fn(tmp);
+      } finally {
+        await ioredis.del(tmp);
+      }
+    }
+
+    /**
+     * @param id a small integer user id
+     * @param at
+     * @returns true when it is the first activity of the user in the bucket
+     */
+    async function mark(
+      id: number,
+      at: Date | number = Date.now()
+    ): Promise<boolean> {
+      const bucketKey = keyOf(at);
+      const multi = ioredis.multi().setbit(bucketKey, id, 1);
+      if (options.ttl) {
+        multi.expire(bucketKey, options.ttl);
+      }
+      const [[, previous]] = (await multi.exec()) as [Error | null, number][];
+      return previous == 0;
+    }
+
+    async function isActive(
+      id: number,
+      at: Date | number = Date.now()
+    ): Promise<boolean> {
+      return (await ioredis.getbit(keyOf(at), id)) == 1;
+    }
+
+    /**
+     * @param at
+     * @returns the users active in the bucket of the time
+     */
+    async function count(at: Date | number = Date.now()): Promise<number> {
+      return await ioredis.bitcount(keyOf(at));
+    }
+
+    /**
+     * @param from
+     * @param to
+     * @returns the users active at least once in the range
+     */
+    async function unique(
+      from: Date | number,
+      to: Date | number
+    ): Promise<number> {
+      return await combined("OR", keysBetween(from, to), (tmp) =>
+        ioredis.bitcount(tmp)
+      );
+    }
+
+    /**
+     * the users active in the days up to the UTC day of the time
+     * @param days
+     * @param at
+     * @returns
+     */
+    async function lastDays(days: number, at: Date | number) {
+      const end = Math.floor(new Date(at).getTime() / dayMs + 1) * dayMs - 1;
+      return await unique(end + 1 - days * dayMs, end);
+    }
+
+    async function daily(at: Date | number = Date.now()): Promise<number> {
+      return await lastDays(1, at);
+    }
+
+    async function weekly(at: Date | number = Date.now()): Promise<number> {
+      return await lastDays(7, at);
+    }
+
+    async function monthly(at: Date | number = Date.now()): Promise<number> {
+      return await lastDays(30, at);
+    }
+
+    /**
+     * @param from
+     * @param to
+     * @returns the lowest user id active in the range, null when none is
+     */
+    async function firstActive(
+      from: Date | number,
+      to: Date | number
+    ): Promise<number | null> {
+      const pos = await combined("OR", keysBetween(from, to), (tmp) =>
+        ioredis.bitpos(tmp, 1)
+      );
+      return pos < 0 ? null : pos;
+    }
+
+    /**
+     * how many users of a cohort came back later
+     * @param cohort from and to of the cohort activity
+     * @param later from and to of the activity looked for
+     * @returns
+     */
+    async function retention(
+      cohort: [Date | number, Date | number],
+      later: [Date | number, Date | number]
+    ): Promise<Retention> {
+      return await combined("OR", keysBetween(...cohort), (first) =>
+        combined("OR", keysBetween(...later), (second) =>
+          combined("AND", [first, second], async (both) => {
+            const [total, retained] = await Promise.all([
+              ioredis.bitcount(first),
+              ioredis.bitcount(both),
+            ]);
+            return {
+              cohort: total,
+              retained,
+              rate: total ? retained / total : 0,
+            };
+          })
+        )
+      );
+    }
+
+    return {
+      mark,
+      isActive,
+      count,
+      unique,
+      daily,
+      weekly,
+      monthly,
+      firstActive,
+      retention,
+    };
+  }
+
+  /**
+   * a leaderboard on a sorted set
+   * @param key
+   * @param options
+   * @returns
+   */
+  function leaderboard(key: RedisKey, options: LeaderboardOptions = {}) {
+    const order = options.order ?? "desc";
+    const ties = options.earliestFirst ?? true;
+    const dayMs = 24 * 3600 * 1000;
+    const periodMs = options.period == "weekly" ? 7 * dayMs : dayMs;
+
+    /**
+     * @param at
+     * @returns the start of the period of the time
+     */
+    function periodStart(at: Date | number): number {
+      const day = Math.floor(new Date(at).getTime() / dayMs);
+      if (options.period != "weekly") {
+        return day * dayMs;
+      }
+      // the epoch was a thursday
+      return (day - ((day + 3) % 7)) * dayMs;
+    }
+
+    /**
+     * @param at
+     * @returns the key of the board of the time, the key itself
+     * when the board is not periodic
+     */
+    function keyOf(at: Date | number = Date.now()): string {
+      if (!options.period) {
+        return key.toString();
+      }
+      return `${key}:${bucketOf(periodStart(at), "day")}`;
+    }
+
+    function expireAt(at: number): number {
+      if (!options.period) {
+        return 0;
+      }
+      const keepMs = (options.keepSeconds ?? periodMs / 1000) * 1000;
+      return periodStart(at) + periodMs + keepMs;
+    }
+
+    function scoreOf(raw: string): number {
+      return ties ? Math.floor(Number(raw)) : Number(raw);
+    }
+
+    /**
+     * @param raw member and score pairs
+     * @param first rank of the first pair
+     * @returns
+     */
+    function entriesOf(raw: string[], first: number): LeaderboardEntry[] {
+      const entries: LeaderboardEntry[] = [];
+      for (let i = 0; i < raw.length; i += 2) {
+        entries.push({
+          member: raw[i],
+          score: scoreOf(raw[i + 1]),
+          rank: first + i / 2,
+        });
+      }
+      return entries;
+    }
+
+    /**
+     * the helpers of the board of a time, the current one by default
+     * @param at
+     * @returns
+     */
+    function board(at?: Date | number) {
+      function boardKey() {
+        return keyOf(at ?? Date.now());
+      }
+
+      async function write(
+        mode: "set" | "incr",
+        member: string,
+        score: number
+      ): Promise<number> {
+        const now = new Date(at ?? Date.now()).getTime();
+        const k = keyOf(now);
+        if (ties) {
+          // the tie fraction only fits beside whole scores up to 2^21
+          if (!Number.isInteger(score) || Math.abs(score) > 2 ** 21) {
+            throw new Error(
+              `score ${score} is not a whole number up to 2^21, ` +
+                "turn earliestFirst off for other scores"
+            );
+          }
+          return Number(
+            await ioredis.eval(
+              LEADERBOARD_WRITE,
+              1,
+              k,
+              member,
+              score,
+              mode,
+              order,
+              expireAt(now)
+            )
+          );
+        }
+
+        const multi = ioredis.multi();
+        if (mode == "set") {
+          multi.zadd(k, score, member).zscore(k, member);
+        } else {
+          multi.zincrby(k, score, member);
+        }
+        if (options.period) {
+          multi.pexpireat(k, expireAt(now));
+        }
+        const replies = (await multi.exec()) as [Error | null, string][];
+        return Number(replies[mode == "set" ? 1 : 0][1]);
+      }
+
+      /**
+       * @param member
+       * @param score
+       * @returns the score
+       */
+      async function set(member: string, score: number): Promise<number> {
+        return await write("set", member, score);
+      }
+
+      /**
+       * @param member
+       * @param by
+       * @returns the new score
+       */
+      async function incr(member: string, by: number = 1): Promise<number> {
+        return await write("incr", member, by);
+      }
+
+      async function score(member: string): Promise<number | null> {
+        const raw = await ioredis.zscore(boardKey(), member);
+        return raw === null ? null : scoreOf(raw);
+      }
+
+      /**
+       * @param member
+       * @returns 0 based index, null when absent
+       */
+      async function indexOf(member: string): Promise<number | null> {
+        return order == "desc"
+          ? await ioredis.zrevrank(boardKey(), member)
+          : await ioredis.zrank(boardKey(), member);
+      }
+
+      async function range(start: number, stop: number) {
+        const raw =
+          order == "desc"
+            ? await ioredis.zrevrange(boardKey(), start, stop, "WITHSCORES")
+            : await ioredis.zrange(boardKey(), start, stop, "WITHSCORES");
+        return entriesOf(raw, start + 1);
+      }
+
+      /**
+       * @param member
+       * @returns the rank and score of the member, null when absent
+       */
+      async function rank(member: string): Promise<LeaderboardEntry | null> {
+        const [index, value] = await Promise.all([
+          indexOf(member),
+          score(member),
+        ]);
+        if (index === null || value === null) {
+          return null;
+        }
+        return { member, score: value, rank: index + 1 };
+      }
+
+      async function top(n: number = 10): Promise<LeaderboardEntry[]> {
+        return await range(0, n - 1);
+      }
+
+      /**
+       * @param member
+       * @param radius entries above and below the member
+       * @returns empty when the member is absent
+       */
+      async function around(
+        member: string,
+        radius: number = 5
+      ): Promise<LeaderboardEntry[]> {
+        const index = await indexOf(member);
+        if (index === null) {
+          return [];
+        }
+        return await range(Math.max(0, index - radius), index + radius);
+      }
+
+      /**
+       * @param page 1 for the first page
+       * @param size
+       * @returns
+       */
+      async function page(
+        page: number,
+        size: number = 10
+      ): Promise<LeaderboardEntry[]> {
+        const start = (page - 1) * size;
+        return await range(start, start + size - 1);
+      }
+
+      async function remove(...members: string[]): Promise<number> {
+        return await ioredis.zrem(boardKey(), ...members);
+      }
+
+      async function size(): Promise<number> {
+        return await ioredis.zcard(boardKey());
+      }
+
+      return {
+        set,
+        incr,
+        score,
+        rank,
+        top,
+        around,
+        page,
+        remove,
+        size,
+      };
+    }
+
+    /**
+     * merge boards with ZUNIONSTORE, summed boards with earliest
+     * achievers are merged by a script keeping the fractions right
+     * @param dest
+     * @param sources
+     * @param mergeOptions
+     * @returns the member count of the merged board
+     */
+    async function merge(
+      dest: RedisKey,
+      sources: RedisKey[],
+      mergeOptions: LeaderboardMergeOptions = {}
+    ): Promise<number> {
+      const aggregate = mergeOptions.aggregate ?? "sum";
+      const count =
+        ties && aggregate == "sum"
+          ? ((await ioredis.eval(
+              LEADERBOARD_SUM,
+              sources.length + 1,
+              dest,
+              ...sources,
+              order
+            )) as number)
+          : await ioredis.zunionstore(
+              dest,
+              sources.length,
+              ...sources,
+              "AGGREGATE",
+              aggregate.toUpperCase()
+            );
+      if (mergeOptions.ttl) {
+        await ioredis.expire(dest, mergeOptions.ttl);
+      }
+      return count;
+    }
+
+    return {
+      ...board(),
+      keyOf,
+      /** the board of the period of the time */
+      at: (time: Date | number) => board(time),
+      merge,
+    };
+  }
+
+  /**
+   * a message queue of FIFO
+   * @param key
+   * @returns
+   */
+  function queue(key: RedisKey) {
+    const popBlocking: BlockingPop<string> = async (conn, timeout) => {
+      const reply = await conn.brpop(key, timeout);
+      return reply && reply[1];
+    };
+
+    async function push(...elements: (string | number | Buffer)[]) {
+      return await ioredis.lpush(key, ...elements);
+    }
+
+    /**
+     * @param timeoutSeconds wait for a message, 0 waits forever
+     * @returns null when empty
+     */
+    async function pop(timeoutSeconds?: number): Promise<string | null> {
+      if (timeoutSeconds === undefined) {
+        return await ioredis.rpop(key);
+      }
+      return await blocking((conn) => popBlocking(conn, timeoutSeconds));
+    }
+
+    async function size(): Promise<number> {
+      return await ioredis.llen(key);
+    }
+
+    function consume(options?: ConsumeOptions): Consumer<string> {
+      return consumer(popBlocking, options);
+    }
+
+    function observe(
+      handler?: undefined,
+      options?: ConsumeOptions
+    ): Observable<string>;
+    function observe<R>(
+      handler: (message: string) => R | Promise<R>,
+      options?: ConsumeOptions
+    ): Observable<R>;
+    function observe<R>(
+      handler?: (message: string) => R | Promise<R>,
+      options?: ConsumeOptions
+    ): Observable<R | string> {
+      return observer(popBlocking, handler, options);
+    }
+
+    return {
+      push,
+      pop,
+      size,
+      consume,
+      observe,
+    };
+  }
+
+  /**
+   * messages delivered into queue(key) once they are due
+   * @param key the ready queue
+   * @returns
+   */
+  function delayedQueue(key: RedisKey) {
+    const dueKey = `${key}:delayed`;
+    const messagesKey = `${key}:delayed:messages`;
+
+    /**
+     * @param message
+     * @param delayMs
+     * @returns the id to cancel the message with
+     */
+    async function pushDelayed(
+      message: string | Buffer,
+      delayMs: number
+    ): Promise<string> {
+      const id = randomUUID();
+      await ioredis.eval(
+        DELAYED_PUSH,
+        2,
+        dueKey,
+        messagesKey,
+        id,
+        message,
+        Math.max(0, Math.round(delayMs))
+      );
+      return id;
+    }
+
+    /**
+     * @param message
+     * @param date
+     * @returns the id to cancel the message with
+     */
+    async function pushAt(
+      message: string | Buffer,
+      date: Date
+    ): Promise<string> {
+      const id = randomUUID();
+      await ioredis
+        .multi()
+        .hset(messagesKey, id, message)
+        .zadd(dueKey, date.getTime(), id)
+        .exec();
+      return id;
+    }
+
+    async function cancel(id: string): Promise<boolean> {
+      const [[, removed]] = (await ioredis
+        .multi()
+        .zrem(dueKey, id)
+        .hdel(messagesKey, id)
+        .exec()) as [Error | null, number][];
+      return removed == 1;
+    }
+
+    /**
+     * move the due messages into the ready queue, safe to run anywhere
+     * @param limit
+     * @returns the number of moved messages
+     */
+    async function promote(limit: number = 100): Promise<number> {
+      return (await ioredis.eval(
+        DELAYED_PROMOTE,
+        3,
+        dueKey,
+        messagesKey,
+        key,
+        limit
+      )) as number;
+    }
+
+    /**
+     * promote periodically until the returned function is called
+     * @param intervalMs
+     * @returns
+     */
+    function startPromoter(intervalMs: number = 1000): () => void {
+      const timer = setInterval(() => promote().catch(() => {}), intervalMs);
+      unref(timer);
+      return () => clearInterval(timer);
+    }
+
+    async function size(): Promise<number> {
+      return await ioredis.zcard(dueKey);
+    }
+
+    return {
+      pushDelayed,
+      pushAt,
+      cancel,
+      promote,
+      startPromoter,
+      size,
+    };
+  }
+
+  /**
+   * a FIFO queue keeping popped messages until they are acked,
+   * expired or failed messages are delivered again
+   * @param key
+   * @param options
+   * @returns
+   */
+  function reliableQueue(key: RedisKey, options: ReliableQueueOptions = {}) {
+    const owner = options.consumer ?? `${hostname()}:${process.pid}`;
+    const visibilityMs = (options.visibilitySeconds ?? 30) * 1000;
+    const maxDeliveries = options.maxDeliveries ?? 5;
+    const keys = {
+      ready: key,
+      processing: `${key}:processing:${owner}`,
+      messages: `${key}:messages`,
+      deliveries: `${key}:deliveries`,
+      errors: `${key}:errors`,
+      deadlines: `${key}:deadlines`,
+      owners: `${key}:owners`,
+      dead: `${key}:dead`,
+    };
+
+    async function push(...bodies: (string | Buffer)[]): Promise<string[]> {
+      const ids = bodies.map(() => randomUUID());
+      const multi = ioredis.multi();
+      bodies.forEach((body, i) => multi.hset(keys.messages, ids[i], body));
+      await multi.lpush(keys.ready, ...ids).exec();
+      return ids;
+    }
+
+    async function take(): Promise<ReliableMessage | null> {
+      const reply = (await ioredis.eval(
+        RELIABLE_POP,
+        7,
+        keys.ready,
+        keys.processing,
+        keys.deliveries,
+        keys.deadlines,
+        keys.owners,
+        keys.messages,
+        keys.errors,
+        visibilityMs,
+        owner
+      )) as [string, string, number, string | null] | null;
+      if (!reply) {
+        return null;
+      }
+
+      const [id, body, deliveries, error] = reply;
+      return { id, body, deliveries, error: error ?? null };
+    }
+
+    /**
+     * wait until the ready list is not empty, moving the last message
+     * onto the list itself keeps every message in place
+     * @param conn
+     * @param timeout
+     * @returns false when timed out
+     */
+    async function waitReady(conn: IORedis, timeout: number): Promise<boolean> {
+      const moved = await conn.blmove(
+        keys.ready,
+        keys.ready,
+        "RIGHT",
+        "RIGHT",
+        timeout
+      );
+      return moved !== null;
+    }
+
+    const popBlocking: BlockingPop<ReliableMessage> = async (conn, timeout) => {
+      const message = await take();
+      if (message || !(await waitReady(conn, timeout))) {
+        return message;
+      }
+      return await take();
+    };
+
+    /**
+     * @param timeoutSeconds wait for a message, 0 waits forever
+     * @returns null when empty
+     */
+    async function pop(
+      timeoutSeconds?: number
+    ): Promise<ReliableMessage | null> {
+      const deadline = Date.now() + (timeoutSeconds ?? 0) * 1000;
+      while (true) {
+        const message = await take();
+        if (message || timeoutSeconds === undefined) {
+          return message;
+        }
+
+        // another consumer may claim the message first, then wait again
+        const left = (deadline - Date.now()) / 1000;
+        if (timeoutSeconds > 0 && left <= 0) {
+          return null;
+        }
+        const wait = timeoutSeconds == 0 ? 0 : Math.max(left, 0.01);
+        if (!(await blocking((conn) => waitReady(conn, wait)))) {
+          return null;
+        }
+      }
+    }
+
+    function consume(options?: ConsumeOptions): Consumer<ReliableMessage> {
+      return consumer(popBlocking, options);
+    }
+
+    function observe(
+      handler?: undefined,
+      options?: ConsumeOptions
+    ): Observable<ReliableMessage>;
+    function observe<R>(
+      handler: (message: ReliableMessage) => R | Promise<R>,
+      options?: ConsumeOptions
+    ): Observable<R>;
+    function observe<R>(
+      handler?: (message: ReliableMessage) => R | Promise<R>,
+      options?: ConsumeOptions
+    ): Observable<R | ReliableMessage> {
+      return observer(popBlocking, handler, options);
+    }
+
+    async function ack(id: string): Promise<boolean> {
+      const val = await ioredis.eval(
+        RELIABLE_ACK,
+        6,
+        keys.processing,
+        keys.deadlines,
+        keys.owners,
+        keys.messages,
+        keys.deliveries,
+        keys.errors,
+        id
+      );
+      return val == 1;
+    }
+
+    /**
+     * give a message up, it is delivered again unless it failed too often
+     * @param id
+     * @param error
+     * @returns false when the message went to the dead letters
+     */
+    async function nack(id: string, error?: unknown): Promise<boolean> {
+      const reason =
+        error === undefined
+          ? ""
+          : error instanceof Error
+          ? error.message
+          : String(error);
+      const val = await ioredis.eval(
+        RELIABLE_NACK,
+        7,
+        keys.ready,
+        keys.processing,
+        keys.deadlines,
+        keys.owners,
+        keys.deliveries,
+        keys.errors,
+        keys.dead,
+        id,
+        reason,
+        maxDeliveries
+      );
+      return val == 1;
+    }
+
+    /**
+     * keep a message invisible for another visibility timeout
+     * @param id
+     * @returns
+     */
+    async function touch(id: string): Promise<boolean> {
+      // the deadline is on the server clock, like the one of pop and reap
+      const val = await ioredis.eval(
+        RELIABLE_TOUCH,
+        1,
+        keys.deadlines,
+        id,
+        visibilityMs
+      );
+      return val == 1;
+    }
+
+    /**
+     * requeue the messages whose visibility timeout ran out
+     * @param limit
+     * @returns the number of reaped messages
+     */
+    async function reap(limit: number = 100): Promise<number> {
+      return (await ioredis.eval(
+        RELIABLE_REAP,
+        6,
+        keys.ready,
+        keys.deadlines,
+        keys.owners,
+        keys.deliveries,
+        keys.errors,
+        keys.dead,
+        maxDeliveries,
+        limit
+      )) as number;
+    }
+
+    /**
+     * reap periodically until the returned function is called
+     * @param intervalMs
+     * @returns
+     */
+    function startReaper(intervalMs: number = 1000): () => void {
+      const timer = setInterval(() => reap().catch(() => {}), intervalMs);
+      unref(timer);
+      return () => clearInterval(timer);
+    }
+
+    async function size(): Promise<number> {
+      return await ioredis.llen(keys.ready);
+    }
+
+    async function processing(): Promise<number> {
+      return await ioredis.llen(keys.processing);
+    }
+
+    async function deadLetters(): Promise<ReliableMessage[]> {
+      const ids = await ioredis.lrange(keys.dead, 0, -1);
+      if (ids.length == 0) {
+        return [];
+      }
+
+      const [[, bodies], [, deliveries], [, errors]] = (await ioredis
+        .multi()
+        .hmget(keys.messages, ...ids)
+        .hmget(keys.deliveries, ...ids)
+        .hmget(keys.errors, ...ids)
+        .exec()) as [Error | null, (string | null)[]][];
+      return ids.map((id, i) => ({
+        id,
+        body: bodies[i] ?? "",
+        deliveries: Number(deliveries[i] ?? 0),
+        error: errors[i],
+      }));
+    }
 
-      return count > maxValue;
+    async function requeueDead(): Promise<number> {
+      return (await ioredis.eval(
+        RELIABLE_REQUEUE_DEAD,
+        4,
+        keys.ready,
+        keys.dead,
+        keys.deliveries,
+        keys.errors
+      )) as number;
     }
-    // await ioredis.set(key, value ?? 0, "EX", seconds, "NX");
+
     return {
-      get,
-      incr,
+      push,
+      pop,
+      ack,
+      nack,
+      touch,
+      consume,
+      observe,
+      reap,
+      startReaper,
+      size,
+      processing,
+      deadLetters,
+      requeueDead,
     };
   }
 
   /**
-   * bits op
+   * a queue handing out the highest priority first, FIFO within a priority
    * @param key
    * @returns
    */
-  function bits(key: RedisKey) {
-    async function get(offset: string | number): Promise<number> {
-      return await ioredis.getbit(key, offset);
+  function priorityQueue(key: RedisKey) {
+    const itemsKey = `${key}:items`;
+    const seqKey = `${key}:seq`;
+    const readyKey = `${key}:ready`;
+
+    /**
+     * wait until there are items, moving the single element of the ready
+     * list onto itself leaves the items to the atomic pop
+     * @param conn
+     * @param timeout
+     * @returns false when timed out
+     */
+    async function waitReady(conn: IORedis, timeout: number): Promise<boolean> {
+      const moved = await conn.blmove(
+        readyKey,
+        readyKey,
+        "RIGHT",
+        "RIGHT",
+        timeout
+      );
+      return moved !== null;
     }
 
-    async function set(...offset: Array<number>) {
-      if (Array.isArray(offset)) {
-        for (let o of offset) {
-          await ioredis.setbit(key, o, 1);
-        }
-      } else {
-        await ioredis.setbit(key, offset, 1);
+    const popBlocking: BlockingPop<PriorityItem> = async (conn, timeout) => {
+      const [item] = await popMany(1);
+      if (item || !(await waitReady(conn, timeout))) {
+        return item ?? null;
       }
+      const [next] = await popMany(1);
+      return next ?? null;
+    };
+
+    /**
+     * @param value
+     * @param priority higher goes first
+     * @returns the id of the item
+     */
+    async function push(
+      value: string | number | Buffer,
+      priority: number = 0
+    ): Promise<string> {
+      return (await ioredis.eval(
+        PRIORITY_PUSH,
+        4,
+        key,
+        itemsKey,
+        seqKey,
+        readyKey,
+        priority,
+        value
+      )) as string;
     }
 
-    async function unset(...offset: Array<number>) {
-      if (Array.isArray(offset)) {
-        for (let o of offset) {
-          await ioredis.setbit(key, o, 0);
-        }
-      } else {
-        await ioredis.setbit(key, offset, 0);
+    async function popMany(count: number): Promise<PriorityItem[]> {
+      const reply = (await ioredis.eval(
+        PRIORITY_POP,
+        3,
+        key,
+        itemsKey,
+        readyKey,
+        count
+      )) as string[];
+
+      const items: PriorityItem[] = [];
+      for (let i = 0; i < reply.length; i += 3) {
+        items.push({
+          id: reply[i],
+          priority: -Number(reply[i + 1]),
+          value: reply[i + 2],
+        });
       }
+      return items;
     }
 
-    async function count(): Promise<number> {
-      return await ioredis.bitcount(key);
+    /**
+     * @param timeoutSeconds wait for an item, 0 waits forever
+     * @returns null when empty
+     */
+    async function pop(timeoutSeconds?: number): Promise<PriorityItem | null> {
+      if (timeoutSeconds === undefined) {
+        const [item] = await popMany(1);
+        return item ?? null;
+      }
+      return await blocking((conn) => popBlocking(conn, timeoutSeconds));
+    }
+
+    async function peek(count: number = 1): Promise<PriorityItem[]> {
+      const reply = await ioredis.zrange(key, 0, count - 1, "WITHSCORES");
+      if (reply.length == 0) {
+        return [];
+      }
+
+      const ids = reply.filter((_, i) => i % 2 == 0);
+      const values = await ioredis.hmget(itemsKey, ...ids);
+      return ids.map((id, i) => ({
+        id,
+        priority: -Number(reply[i * 2 + 1]),
+        value: values[i] ?? "",
+      }));
+    }
+
+    /**
+     * move a waiting item to another priority, it keeps its FIFO position
+     * @param id
+     * @param priority
+     * @returns false when the item is gone
+     */
+    async function setPriority(id: string, priority: number): Promise<boolean> {
+      return (await ioredis.eval(PRIORITY_MOVE, 1, key, id, priority)) == 1;
+    }
+
+    async function remove(id: string): Promise<boolean> {
+      const removed = await ioredis.eval(
+        PRIORITY_REMOVE,
+        3,
+        key,
+        itemsKey,
+        readyKey,
+        id
+      );
+      return removed == 1;
+    }
+
+    /**
+     * @param minPriority
+     * @param maxPriority
+     * @returns the number of items within the priorities
+     */
+    async function size(
+      minPriority: number = -Infinity,
+      maxPriority: number = Infinity
+    ): Promise<number> {
+      return await ioredis.zcount(
+        key,
+        maxPriority == Infinity ? "-inf" : -maxPriority,
+        minPriority == -Infinity ? "+inf" : -minPriority
+      );
+    }
+
+    function consume(options?: ConsumeOptions): Consumer<PriorityItem> {
+      return consumer(popBlocking, options);
+    }
+
+    function observe(
+      handler?: undefined,
+      options?: ConsumeOptions
+    ): Observable<PriorityItem>;
+    function observe<R>(
+      handler: (item: PriorityItem) => R | Promise<R>,
+      options?: ConsumeOptions
+    ): Observable<R>;
+    function observe<R>(
+      handler?: (item: PriorityItem) => R | Promise<R>,
+      options?: ConsumeOptions
+    ): Observable<R | PriorityItem> {
+      return observer(popBlocking, handler, options);
     }
 
     return {
-      get,
-      set,
-      unset,
-      count,
+      push,
+      pop,
+      popMany,
+      peek,
+      setPriority,
+      remove,
+      size,
+      consume,
+      observe,
     };
   }
 
   /**
-   * a message queue of FIFO
+   * a mesage stack of LIFO
    * @param key
    * @returns
    */
-  function queue(key: RedisKey) {
+  function stack(key: RedisKey) {
+    const popBlocking: BlockingPop<string> = async (conn, timeout) => {
+      const reply = await conn.blpop(key, timeout);
+      return reply && reply[1];
+    };
+
     async function push(...elements: (string | number | Buffer)[]) {
       return await ioredis.lpush(key, ...elements);
     }
 
-    async function pop(): Promise<string | null> {
-      return await ioredis.rpop(key);
+    /**
+     * @param timeoutSeconds wait for a message, 0 waits forever
+     * @returns null when empty
+     */
+    async function pop(timeoutSeconds?: number): Promise<string | null> {
+      if (timeoutSeconds === undefined) {
+        return await ioredis.lpop(key);
+      }
+      return await blocking((conn) => popBlocking(conn, timeoutSeconds));
     }
 
     async function size(): Promise<number> {
       return await ioredis.llen(key);
     }
 
+    function consume(options?: ConsumeOptions): Consumer<string> {
+      return consumer(popBlocking, options);
+    }
+
+    function observe(
+      handler?: undefined,
+      options?: ConsumeOptions
+    ): Observable<string>;
+    function observe<R>(
+      handler: (message: string) => R | Promise<R>,
+      options?: ConsumeOptions
+    ): Observable<R>;
+    function observe<R>(
+      handler?: (message: string) => R | Promise<R>,
+      options?: ConsumeOptions
+    ): Observable<R | string> {
+      return observer(popBlocking, handler, options);
+    }
+
     return {
       push,
       pop,
       size,
+      consume,
+      observe,
     };
   }
 
   /**
-   * a mesage stack of LIFO
+   * a redis stream with consumer groups, field values go through the codec
    * @param key
+   * @param codec
    * @returns
    */
-  function stack(key: RedisKey) {
-    async function push(...elements: (string | number | Buffer)[]) {
-      return await ioredis.lpush(key, ...elements);
+  function stream(key: RedisKey): StreamHelper<string>;
+  function stream<V>(key: RedisKey, codec: Codec<V>): StreamHelper<V>;
+  function stream<V>(key: RedisKey, codec?: Codec<V>): StreamHelper<V> {
+    return openStream(key, codecOf({ codec }));
+  }
+
+  type StreamHelper<V> = ReturnType<typeof openStream<V>>;
+
+  function openStream<V>(key: RedisKey, codec: Codec<V>) {
+    type RawEntry = [Buffer, Buffer[] | null];
+
+    function decode(entries: RawEntry[]): StreamEntry<V>[] {
+      return entries.map(([id, raw]) => {
+        const fields: Record<string, V> = {};
+        for (let i = 0; raw && i < raw.length; i += 2) {
+          fields[raw[i].toString()] = codec.decode(raw[i + 1]);
+        }
+        return { id: id.toString(), fields };
+      });
     }
 
-    async function pop(): Promise<string | null> {
-      return await ioredis.lpop(key);
+    function trimArgs(options: StreamTrimOptions): (string | number)[] {
+      const approximate = options.approximate ?? true ? ["~"] : [];
+      if (options.maxLen !== undefined) {
+        return ["MAXLEN", ...approximate, options.maxLen];
+      }
+      if (options.minId !== undefined) {
+        return ["MINID", ...approximate, options.minId];
+      }
+      return [];
     }
 
-    async function size(): Promise<number> {
-      return await ioredis.llen(key);
+    /**
+     * @param fields
+     * @param options trimming happens along with the add
+     * @returns the id of the entry
+     */
+    async function add(
+      fields: Record<string, V>,
+      options: StreamAddOptions = {}
+    ): Promise<string> {
+      const values = Object.entries(fields).flatMap(([field, value]) => [
+        field,
+        codec.encode(value),
+      ]);
+      return (await ioredis.xadd(
+        key,
+        ...trimArgs(options),
+        options.id ?? "*",
+        ...values
+      )) as string;
+    }
+
+    async function range(
+      start: string = "-",
+      end: string = "+",
+      count?: number
+    ): Promise<StreamEntry<V>[]> {
+      const entries =
+        count === undefined
+          ? await ioredis.xrangeBuffer(key, start, end)
+          : await ioredis.xrangeBuffer(key, start, end, "COUNT", count);
+      return decode(entries as RawEntry[]);
+    }
+
+    async function revRange(
+      end: string = "+",
+      start: string = "-",
+      count?: number
+    ): Promise<StreamEntry<V>[]> {
+      const entries =
+        count === undefined
+          ? await ioredis.xrevrangeBuffer(key, end, start)
+          : await ioredis.xrevrangeBuffer(key, end, start, "COUNT", count);
+      return decode(entries as RawEntry[]);
+    }
+
+    async function length(): Promise<number> {
+      return await ioredis.xlen(key);
+    }
+
+    /**
+     * @param options
+     * @returns the number of removed entries
+     */
+    async function trim(options: StreamTrimOptions): Promise<number> {
+      const args = trimArgs(options);
+      return (await ioredis.call("XTRIM", key, ...args)) as number;
+    }
+
+    async function remove(...ids: string[]): Promise<number> {
+      return await ioredis.xdel(key, ...ids);
+    }
+
+    /**
+     * @param group
+     * @param startId "$" only delivers new entries, "0" the whole stream
+     * @returns false when the group exists already
+     */
+    async function createGroup(
+      group: string,
+      startId: string = "$"
+    ): Promise<boolean> {
+      try {
+        await ioredis.xgroup("CREATE", key, group, startId, "MKSTREAM");
+        return true;
+      } catch (err) {
+        if (err instanceof Error && err.message.startsWith("BUSYGROUP")) {
+          return false;
+        }
+        throw err;
+      }
+    }
+
+    async function destroyGroup(group: string): Promise<boolean> {
+      return (await ioredis.xgroup("DESTROY", key, group)) == 1;
+    }
+
+    /**
+     * read as a member of the group, the entries stay pending until acked
+     * @param group
+     * @param consumerName
+     * @param options
+     * @returns
+     */
+    function readGroup(
+      group: string,
+      consumerName: string,
+      options: ReadGroupOptions = {}
+    ): Consumer<StreamEntry<V>> {
+      const count = options.count ?? 10;
+      const buffered: StreamEntry<V>[] = [];
+      let history = options.pending ?? false;
+      // the history is read on from the last entry it delivered
+      let historyId = "0";
+
+      const popBlocking: BlockingPop<StreamEntry<V>> = async (
+        conn,
+        timeout
+      ) => {
+        if (buffered.length == 0) {
+          // the history of this consumer is read without blocking
+          const reply = history
+            ? await conn.callBuffer(
+                "XREADGROUP",
+                "GROUP",
+                group,
+                consumerName,
+                "COUNT",
+                count,
+                "STREAMS",
+                key,
+                historyId
+              )
+            : await conn.callBuffer(
+                "XREADGROUP",
+                "GROUP",
+                group,
+                consumerName,
+                "COUNT",
+                count,
+                "BLOCK",
+                timeout * 1000,
+                "STREAMS",
+                key,
+                ">"
+              );
+          const entries = reply
+            ? (reply as [Buffer, RawEntry[]][])[0][1] ?? []
+            : [];
+          if (history && entries.length > 0) {
+            historyId = entries[entries.length - 1][0].toString();
+          }
+          if (history && entries.length < count) {
+            history = false;
+          }
+          buffered.push(...decode(entries));
+        }
+        return buffered.shift() ?? null;
+      };
+
+      return consumer(popBlocking, options);
+    }
+
+    async function ack(group: string, ...ids: string[]): Promise<number> {
+      return await ioredis.xack(key, group, ...ids);
+    }
+
+    /**
+     * @param group
+     * @returns how many entries each consumer has not acked yet
+     */
+    async function pending(group: string) {
+      const [count, minId, maxId, consumers] = (await ioredis.xpending(
+        key,
+        group
+      )) as [number, string | null, string | null, [string, string][] | null];
+      return {
+        count,
+        minId,
+        maxId,
+        consumers: Object.fromEntries(
+          (consumers ?? []).map(([name, n]) => [name, Number(n)])
+        ) as Record<string, number>,
+      };
+    }
+
+    async function pendingEntries(
+      group: string,
+      options: {
+        start?: string;
+        end?: string;
+        count?: number;
+        consumer?: string;
+        minIdleMs?: number;
+      } = {}
+    ): Promise<PendingEntry[]> {
+      const args: (string | number)[] = [
+        ...(options.minIdleMs === undefined ? [] : ["IDLE", options.minIdleMs]),
+        options.start ?? "-",
+        options.end ?? "+",
+        options.count ?? 100,
+        ...(options.consumer === undefined ? [] : [options.consumer]),
+      ];
+      const reply = (await ioredis.call("XPENDING", key, group, ...args)) as [
+        string,
+        string,
+        number,
+        number
+      ][];
+      return reply.map(([id, consumer, idleMs, deliveries]) => ({
+        id,
+        consumer,
+        idleMs,
+        deliveries,
+      }));
+    }
+
+    /**
+     * take over the entries idle for minIdleMs, e.g. of a dead consumer
+     * @param group
+     * @param consumerName
+     * @param minIdleMs
+     * @param options
+     * @returns the claimed entries and where to continue from
+     */
+    async function autoClaim(
+      group: string,
+      consumerName: string,
+      minIdleMs: number,
+      options: { start?: string; count?: number } = {}
+    ) {
+      const [next, entries, deleted] = (await ioredis.callBuffer(
+        "XAUTOCLAIM",
+        key,
+        group,
+        consumerName,
+        minIdleMs,
+        options.start ?? "0-0",
+        "COUNT",
+        options.count ?? 100
+      )) as [Buffer, RawEntry[], Buffer[] | undefined];
+      return {
+        next: next.toString(),
+        entries: decode(entries.filter(([, raw]) => raw !== null)),
+        deleted: (deleted ?? []).map((id) => id.toString()),
+      };
     }
 
     return {
-      push,
-      pop,
-      size,
+      add,
+      range,
+      revRange,
+      length,
+      trim,
+      remove,
+      createGroup,
+      destroyGroup,
+      readGroup,
+      ack,
+      pending,
+      pendingEntries,
+      autoClaim,
     };
   }
 
@@ -460,20 +3757,644 @@ export async function createRedisClient(cfg: RedisConfig) {
     };
   }
 
+  /**
+   * named job types run by workers, with retries and progress,
+   * the job records live in hashes
+   * @param name
+   * @returns
+   */
+  function jobQueue(name: string) {
+    const waiting = queue(`${name}:wait`);
+    const retries = delayedQueue(`${name}:wait`);
+    const ids = serial(`${name}:ids`);
+    const channel = `${ioredis.options.keyPrefix ?? ""}${name}:events`;
+    const codec = jsonCodec<JobEvent>();
+
+    function record(id: string) {
+      return hashSet(`${name}:job:${id}`);
+    }
+
+    async function emit(event: JobEvent) {
+      await publish(channel, event, codec);
+    }
+
+    /**
+     * @param type
+     * @param data
+     * @param options
+     * @returns the id of the job
+     */
+    async function add<D>(
+      type: string,
+      data: D,
+      options: JobOptions = {}
+    ): Promise<string> {
+      const id = String(await ids.getOne("job"));
+      await record(id).setObject({
+        type,
+        data: JSON.stringify(data),
+        status: "waiting",
+        attempts: 0,
+        maxAttempts: options.attempts ?? 1,
+        backoff: JSON.stringify(options.backoff ?? null),
+        progress: 0,
+        createdAt: Date.now(),
+      });
+      await waiting.push(id);
+      return id;
+    }
+
+    async function get<D = unknown>(id: string): Promise<Job<D> | null> {
+      const raw = await record(id).getAll();
+      if (!raw.type) {
+        return null;
+      }
+
+      return {
+        id,
+        type: raw.type,
+        data: JSON.parse(raw.data),
+        status: raw.status as JobStatus,
+        attempts: Number(raw.attempts),
+        maxAttempts: Number(raw.maxAttempts),
+        progress: Number(raw.progress),
+        result: raw.result === undefined ? undefined : JSON.parse(raw.result),
+        error: raw.error,
+        createdAt: Number(raw.createdAt),
+        startedAt: raw.startedAt ? Number(raw.startedAt) : undefined,
+        finishedAt: raw.finishedAt ? Number(raw.finishedAt) : undefined,
+      };
+    }
+
+    /**
+     * @param backoff
+     * @param attempts
+     * @returns milliseconds before the next attempt
+     */
+    function delayOf(backoff: JobBackoff | null, attempts: number): number {
+      if (!backoff) {
+        return 0;
+      }
+      return backoff.type == "exponential"
+        ? backoff.delayMs * 2 ** (attempts - 1)
+        : backoff.delayMs;
+    }
+
+    /**
+     * run the jobs with the handler of their type
+     * @param handlers
+     * @param options
+     * @returns
+     */
+    function worker(
+      handlers: Record<string, JobHandler>,
+      options: JobWorkerOptions = {}
+    ) {
+      /**
+       * a job failing outside of its handler, e.g. with a broken record
+       * or a lost connection, fails alone and the worker goes on
+       * @param id
+       */
+      async function run(id: string) {
+        try {
+          await attempt(id);
+        } catch (e) {
+          const error = e instanceof Error ? e.message : String(e);
+          await record(id)
+            .setObject({ status: "failed", error, finishedAt: Date.now() })
+            .catch(() => {});
+          const type = await record(id)
+            .get("type")
+            .catch(() => null);
+          await emit({ event: "failed", id, type: type ?? "", error }).catch(
+            () => {}
+          );
+        }
+      }
+
+      async function attempt(id: string) {
+        const job = await get(id);
+        if (!job) {
+          return;
+        }
+
+        const jobRecord = record(id);
+        job.attempts = await ioredis.hincrby(
+          `${name}:job:${id}`,
+          "attempts",
+          1
+        );
+        job.status = "active";
+        job.startedAt = Date.now();
+        await jobRecord.setObject({
+          status: job.status,
+          startedAt: job.startedAt,
+        });
+        await emit({ event: "active", id, type: job.type });
+
+        const progress = async (value: number) => {
+          job.progress = value;
+          await jobRecord.setObject({ progress: value });
+          await emit({
+            event: "progress",
+            id,
+            type: job.type,
+            progress: value,
+          });
+        };
+
+        try {
+          const handler = handlers[job.type];
+          if (!handler) {
+            throw new Error(`no handler for job type ${job.type}`);
+          }
+
+          const result = await handler(job, progress);
+          await jobRecord.setObject({
+            status: "completed",
+            result: JSON.stringify(result ?? null),
+            finishedAt: Date.now(),
+          });
+          await emit({ event: "completed", id, type: job.type, result });
+        } catch (e) {
+          const err = e instanceof Error ? e : new Error(String(e));
+          if (job.attempts < job.maxAttempts) {
+            const backoff = JSON.parse(
+              (await jobRecord.get("backoff")) ?? "null"
+            );
+            const delayMs = options.backoff
+              ? options.backoff(job.attempts, err)
+              : delayOf(backoff, job.attempts);
+            await jobRecord.setObject({
+              status: "delayed",
+              error: err.message,
+            });
+            await retries.pushDelayed(id, delayMs);
+            await emit({
+              event: "retrying",
+              id,
+              type: job.type,
+              error: err.message,
+            });
+          } else {
+            await jobRecord.setObject({
+              status: "failed",
+              error: err.message,
+              finishedAt: Date.now(),
+            });
+            await emit({
+              event: "failed",
+              id,
+              type: job.type,
+              error: err.message,
+            });
+          }
+        }
+      }
+
+      const stopPromoter = retries.startPromoter(200);
+      const subscription = waiting
+        .observe(run, { concurrency: options.concurrency ?? 1 })
+        .subscribe({ error: () => stopPromoter() });
+
+      async function close() {
+        stopPromoter();
+        subscription.unsubscribe();
+      }
+
+      return {
+        close,
+      };
+    }
+
+    /**
+     * the active, progress, retrying, completed and failed events of the jobs
+     * @returns
+     */
+    function events(): Observable<JobEvent> {
+      return subscribe(channel, { codec, pattern: false });
+    }
+
+    return {
+      add,
+      get,
+      worker,
+      events,
+    };
+  }
+
+  /**
+   * run recurring tasks once per scheduled time across all the instances
+   * sharing the name, intervals are aligned to the epoch and cron
+   * expressions are read in UTC
+   * @param name
+   * @returns
+   */
+  function scheduler(name: string) {
+    const instance = `${hostname()}:${process.pid}`;
+    const tasks = new Map<
+      string,
+      {
+        next: (after: number) => number;
+        fn: ScheduledTask;
+        options: ScheduleOptions;
+      }
+    >();
+    let pollMs = 1000;
+    let timer: NodeJS.Timeout | undefined;
+    // the run in flight of each task
+    const running = new Map<string, Promise<void>>();
+
+    function stateKey(task: string) {
+      return `${name}:task:${task}`;
+    }
+
+    function add(
+      task: string,
+      next: (after: number) => number,
+      fn: ScheduledTask,
+      options: ScheduleOptions
+    ) {
+      if (tasks.has(task)) {
+        throw new Error(`task ${task} is already scheduled`);
+      }
+      tasks.set(task, { next, fn, options });
+    }
+
+    /**
+     * @param task
+     * @param intervalMs
+     * @param fn called with the scheduled time
+     * @param options
+     */
+    function every(
+      task: string,
+      intervalMs: number,
+      fn: ScheduledTask,
+      options: ScheduleOptions = {}
+    ) {
+      if (!(intervalMs > 0)) {
+        throw new Error("the interval must be positive");
+      }
+      add(
+        task,
+        (after) => (Math.floor(after / intervalMs) + 1) * intervalMs,
+        fn,
+        options
+      );
+    }
+
+    /**
+     * @param task
+     * @param expression minute hour day-of-month month day-of-week
+     * @param fn called with the scheduled time
+     * @param options
+     */
+    function cron(
+      task: string,
+      expression: string,
+      fn: ScheduledTask,
+      options: ScheduleOptions = {}
+    ) {
+      const schedule = parseCron(expression);
+      add(task, (after) => nextCronTime(schedule, after), fn, options);
+    }
+
+    /**
+     * the scheduled times to run now, following the catch up policy
+     * @param next
+     * @param options
+     * @param last
+     * @param now
+     * @returns the latest time due and the times to run
+     */
+    function dueTimes(
+      next: (after: number) => number,
+      options: ScheduleOptions,
+      last: number,
+      now: number
+    ): [number, number[]] {
+      const policy = options.catchUp ?? "none";
+      const keep = policy == "all" ? options.maxCatchUp ?? 100 : 1;
+      const times: number[] = [];
+      for (let t = next(last); t <= now; t = next(t)) {
+        times.push(t);
+        if (times.length > keep) {
+          times.shift();
+        }
+      }
+
+      const latest = times.length ? times[times.length - 1] : last;
+      // a time due for longer than a poll was missed by every instance
+      if (policy == "none") {
+        return [latest, times.filter((t) => now - t <= 2 * pollMs)];
+      }
+      return [latest, times];
+    }
+
+    async function runTask(task: string, now: number) {
+      const { next, fn, options } = tasks.get(task)!;
+      const key = stateKey(task);
+      const stored = await ioredis.hget(key, "lastScheduledAt");
+      const last = stored === null ? now - pollMs : Number(stored);
+      const [latest, due] = dueTimes(next, options, last, now);
+      await ioredis.eval(SCHEDULE_ADVANCE, 1, key, latest, next(now));
+
+      // the instances that saw a due time started before the schedule was
+      // advanced and reach the time after running the earlier ones, so a
+      // claim lasts for twice the catch up so far and is renewed while the
+      // task runs
+      const started = Date.now();
+      const claimMs = () => 2 * pollMs + 2 * (Date.now() - started);
+      for (const t of due) {
+        const claimKey = `${name}:claim:${task}:${t}`;
+        const claimed = await ioredis.set(
+          claimKey,
+          instance,
+          "PX",
+          claimMs(),
+          "NX"
+        );
+        if (claimed != "OK") {
+          continue;
+        }
+
+        const renewal = watchdog(
+          async () => (await ioredis.pexpire(claimKey, claimMs())) == 1,
+          2 * pollMs
+        );
+        let error: string | undefined;
+        try {
+          await fn(t);
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+        } finally {
+          renewal.stop();
+        }
+        await ioredis.pexpire(claimKey, claimMs());
+        await ioredis.hset(key, { lastRunAt: Date.now(), lastRunBy: instance });
+        if (error === undefined) {
+          await ioredis.hdel(key, "lastError");
+        } else {
+          await ioredis.hset(key, "lastError", error);
+        }
+      }
+    }
+
+    /**
+     * run every due task once, what start() does at each poll
+     */
+    async function tick(): Promise<void> {
+      const now = Date.now();
+      // a task still running from an earlier poll is left to finish,
+      // the others do not wait for it
+      for (const task of tasks.keys()) {
+        if (!running.has(task)) {
+          running.set(
+            task,
+            runTask(task, now)
+              .catch(() => {})
+              .finally(() => running.delete(task))
+          );
+        }
+      }
+      await Promise.all(running.values());
+    }
+
+    /**
+     * @param intervalMs how often the due tasks are looked for
+     */
+    function start(intervalMs: number = 1000) {
+      pollMs = intervalMs;
+      clearInterval(timer);
+      timer = setInterval(() => tick(), intervalMs);
+      unref(timer);
+    }
+
+    /**
+     * stop polling and wait for the running tasks
+     */
+    async function stop(): Promise<void> {
+      clearInterval(timer);
+      timer = undefined;
+      await Promise.all(running.values());
+    }
+
+    async function state(task: string): Promise<ScheduledTaskState> {
+      const raw = await hashSet(stateKey(task)).getAll();
+      const num = (value?: string) =>
+        value === undefined ? undefined : Number(value);
+      return {
+        lastScheduledAt: num(raw.lastScheduledAt),
+        lastRunAt: num(raw.lastRunAt),
+        lastRunBy: raw.lastRunBy,
+        lastError: raw.lastError,
+        nextRunAt: num(raw.nextRunAt),
+      };
+    }
+
+    return {
+      every,
+      cron,
+      tick,
+      start,
+      stop,
+      state,
+    };
+  }
+
+  /**
+   * geospatial members on a sorted set, with optional metadata
+   * kept as json in the companion hash key:meta
+   * @param key
+   * @returns
+   */
+  function geo<M = Record<string, unknown>>(key: RedisKey) {
+    const meta = hashSet(`${key}:meta`);
+
+    /**
+     * @param member
+     * @param position
+     * @param metadata replaces the previous one when given
+     * @returns 1 when the member is new
+     */
+    async function add(
+      member: string,
+      position: GeoPosition,
+      metadata?: M
+    ): Promise<number> {
+      const added = await ioredis.geoadd(
+        key,
+        position.longitude,
+        position.latitude,
+        member
+      );
+      if (metadata !== undefined) {
+        await meta.setObject({ [member]: JSON.stringify(metadata) });
+      }
+      return added;
+    }
+
+    async function remove(...members: string[]): Promise<number> {
+      const removed = await ioredis.zrem(key, ...members);
+      await meta.remove(...members);
+      return removed;
+    }
+
+    /**
+     * @param members
+     * @returns null for the absent members
+     */
+    async function position(
+      ...members: string[]
+    ): Promise<(GeoPosition | null)[]> {
+      const raw = (await ioredis.geopos(key, ...members)) as
+        | ([string, string] | null)[];
+      return raw.map((pos) =>
+        pos ? { longitude: Number(pos[0]), latitude: Number(pos[1]) } : null
+      );
+    }
+
+    /**
+     * @param a
+     * @param b
+     * @param unit default "km"
+     * @returns null when a member is absent
+     */
+    async function distance(
+      a: string,
+      b: string,
+      unit: GeoUnit = "km"
+    ): Promise<number | null> {
+      const raw = await ioredis.call("GEODIST", key, a, b, unit);
+      return raw === null ? null : Number(raw);
+    }
+
+    async function metadata(member: string): Promise<M | null> {
+      const raw = await meta.get(member);
+      return raw === null ? null : JSON.parse(raw);
+    }
+
+    /**
+     * the members within a radius or a box, with their distance and position
+     * @param options
+     * @returns
+     */
+    async function search(options: GeoSearchOptions): Promise<GeoResult<M>[]> {
+      const unit = options.unit ?? "km";
+      const args: (string | number)[] =
+        typeof options.from == "string"
+          ? ["FROMMEMBER", options.from]
+          : ["FROMLONLAT", options.from.longitude, options.from.latitude];
+      if (options.radius !== undefined) {
+        args.push("BYRADIUS", options.radius, unit);
+      } else if (options.box) {
+        args.push("BYBOX", options.box.width, options.box.height, unit);
+      } else {
+        throw new Error("a radius or a box is needed");
+      }
+      args.push((options.order ?? "asc").toUpperCase());
+      if (options.count) {
+        args.push("COUNT", options.count);
+      }
+
+      const raw = (await ioredis.call(
+        "GEOSEARCH",
+        key,
+        ...args,
+        "WITHDIST",
+        "WITHCOORD"
+      )) as [string, string, [string, string]][];
+      const results: GeoResult<M>[] = raw.map(([member, dist, pos]) => ({
+        member,
+        distance: Number(dist),
+        longitude: Number(pos[0]),
+        latitude: Number(pos[1]),
+      }));
+
+      if (options.withMetadata && results.length) {
+        const values = await ioredis.hmget(
+          `${key}:meta`,
+          ...results.map((result) => result.member)
+        );
+        values.forEach((value, i) => {
+          if (value !== null) {
+            results[i].metadata = JSON.parse(value);
+          }
+        });
+      }
+      return results;
+    }
+
+    return {
+      add,
+      remove,
+      position,
+      distance,
+      metadata,
+      search,
+    };
+  }
+
+  /**
+   * share one pending call between concurrent callers of the same key
+   * @param key
+   * @param fn
+   * @returns
+   */
+  function singleFlight<R>(key: RedisKey, fn: () => Promise<R>): Promise<R> {
+    const id = key.toString();
+    const pending = inflight.get(id);
+    if (pending) {
+      return pending as Promise<R>;
+    }
+
+    const call = fn().finally(() => inflight.delete(id));
+    inflight.set(id, call);
+    return call;
+  }
+
+  const inflight = new Map<string, Promise<unknown>>();
+  const connections = new Set<IORedis>();
+  const idleBlocking: IORedis[] = [];
+  const listeners = new Map<string, Set<MessageListener>>();
+  let subscriber: IORedis | undefined;
   const ioredis: IORedis = await createIORedis(cfg);
   return {
     ioredis,
     close,
     cache,
+    invalidateTag,
+    invalidatePattern,
+    nearCache,
+    publish,
+    subscribe,
+    enableKeyspaceEvents,
+    watch,
     counter,
+    uniqueCounter,
     lock,
+    withLock,
+    leaderElection,
+    semaphore,
+    rwLock,
     throttle,
     bits,
+    bloomFilter,
+    activity,
+    leaderboard,
     queue,
+    reliableQueue,
+    delayedQueue,
+    priorityQueue,
     stack,
+    stream,
     set,
     hashSet,
     serial,
+    geo,
+    jobQueue,
+    scheduler,
   };
 }
 
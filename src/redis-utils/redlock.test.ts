@@ -0,0 +1,70 @@
+import { describe, test, expect } from "@jest/globals";
+import { createRedlock } from "./redlock";
+
+// three local redis-server processes, e.g. `redis-server --port 6380`
+const urls = [
+  "redis://127.0.0.1:6379/0",
+  "redis://127.0.0.1:6380/0",
+  "redis://127.0.0.1:6381/0",
+];
+
+describe("Redlock", () => {
+  test("lock on a quorum of nodes", async () => {
+    const redlock = createRedlock(urls.map((url) => ({ url })));
+    expect(redlock.quorum).toEqual(2);
+
+    const key = "test:redlock:AACCDD";
+    await Promise.all(redlock.nodes.map((node) => node.del(key)));
+
+    const lock = await redlock.lock(key, 10);
+    expect(lock).not.toBeNull();
+    expect(lock!.validity).toBeGreaterThan(0);
+    expect(lock!.validity).toBeLessThanOrEqual(10000);
+
+    const another = await redlock.lock(key, 10);
+    expect(another).toBeNull();
+
+    expect(await lock!.extend(20)).toBeTruthy();
+    expect(await lock!.release()).toBeTruthy();
+
+    const again = await redlock.lock(key, 10);
+    expect(again).not.toBeNull();
+    await again!.release();
+
+    await redlock.close();
+  });
+
+  test("roll back a partial acquisition", async () => {
+    const redlock = createRedlock(urls.map((url) => ({ url })));
+
+    const key = "test:redlock:partial";
+    await Promise.all(redlock.nodes.map((node) => node.del(key)));
+
+    // two of the three nodes are held by someone else
+    const [first, second, third] = redlock.nodes;
+    await first.set(key, "someone-else");
+    await second.set(key, "someone-else");
+
+    const lock = await redlock.lock(key, 10);
+    expect(lock).toBeNull();
+    expect(await third.exists(key)).toEqual(0);
+
+    await Promise.all(redlock.nodes.map((node) => node.del(key)));
+    await redlock.close();
+  });
+
+  test("survive losing a minority of nodes", async () => {
+    const redlock = createRedlock([
+      { url: urls[0] },
+      { url: urls[1] },
+      { url: "redis://127.0.0.1:6399/0" },
+    ]);
+
+    const key = "test:redlock:down";
+    const lock = await redlock.lock(key, 10, { waitMs: 1000 });
+    expect(lock).not.toBeNull();
+    expect(await lock!.release()).toBeTruthy();
+
+    await redlock.close();
+  });
+});
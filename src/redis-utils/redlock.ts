@@ -0,0 +1,171 @@
+import IORedis, { RedisKey } from "ioredis";
+import { randomUUID } from "crypto";
+import { Lock, LockOptions, RedisConfig } from "./redis-client";
+import { EXTEND_LOCK, RELEASE_LOCK } from "./scripts";
+import { acquire, watchdog } from "./utils";
+
+export interface RedlockOptions {
+  /** expected clock drift as a fraction of the ttl, default 0.01 */
+  driftFactor?: number;
+  /** give up on a single node after this many milliseconds, default 200 */
+  timeoutMs?: number;
+}
+
+export interface QuorumLock extends Lock {
+  /** milliseconds the lock is known to be valid since it was acquired */
+  validity: number;
+}
+
+/**
+ * create a lock helper over several independent redis nodes,
+ * a lock is held when the majority of the nodes agree
+ * @param cfgs
+ * @param options
+ * @returns
+ */
+export function createRedlock(cfgs: RedisConfig[], options?: RedlockOptions) {
+  const driftFactor = options?.driftFactor ?? 0.01;
+  const quorum = Math.floor(cfgs.length / 2) + 1;
+
+  const nodes = cfgs.map((cfg) => {
+    const node = new IORedis(cfg.url, {
+      keyPrefix: cfg.keyPrefix,
+      commandTimeout: options?.timeoutMs ?? 200,
+      maxRetriesPerRequest: 0,
+    });
+    // an unreachable node just does not count towards the quorum
+    node.on("error", () => {});
+    return node;
+  });
+
+  /**
+   * run the script on every node and count the successes
+   * @param script
+   * @param key
+   * @param args
+   * @returns
+   */
+  async function evalAll(
+    script: string,
+    key: RedisKey,
+    ...args: (string | number)[]
+  ): Promise<number> {
+    const results = await Promise.all(
+      nodes.map((node) =>
+        node.eval(script, 1, key, ...args).then(
+          (val) => val == 1,
+          () => false
+        )
+      )
+    );
+    return results.filter((ok) => ok).length;
+  }
+
+  /**
+   * the clock drift adjusted time left for a lock set at start
+   * @param start
+   * @param ttl
+   * @returns
+   */
+  function validityOf(start: number, ttl: number): number {
+    const drift = Math.round(ttl * driftFactor) + 2;
+    return ttl - (Date.now() - start) - drift;
+  }
+
+  /**
+   * lock the key on the majority of the nodes
+   * @param key
+   * @param seconds
+   * @param options wait for the lock instead of giving up at once
+   * @returns null when no quorum could be reached
+   */
+  async function lock(
+    key: RedisKey,
+    seconds?: string | number,
+    options?: LockOptions
+  ): Promise<QuorumLock | null> {
+    const token = options?.token ?? randomUUID();
+    const ttl = Number(seconds ?? 30) * 1000;
+
+    async function release(): Promise<boolean> {
+      renewal?.stop();
+      return (await evalAll(RELEASE_LOCK, key, token)) >= quorum;
+    }
+
+    async function extend(s?: string | number): Promise<boolean> {
+      const ms = s === undefined ? ttl : Number(s) * 1000;
+      const start = Date.now();
+      const count = await evalAll(EXTEND_LOCK, key, token, ms);
+      const validity = validityOf(start, ms);
+      if (count >= quorum && validity > 0) {
+        handle.validity = validity;
+        return true;
+      }
+      return false;
+    }
+
+    let renewal: ReturnType<typeof watchdog> | undefined;
+    const handle: QuorumLock = {
+      token,
+      signal: new AbortController().signal,
+      validity: 0,
+      release,
+      extend,
+    };
+
+    const locked = await acquire(async () => {
+      const start = Date.now();
+      const results = await Promise.all(
+        nodes.map((node) =>
+          node.set(key, token, "PX", ttl, "NX").then(
+            (val) => val == "OK",
+            () => false
+          )
+        )
+      );
+      const count = results.filter((ok) => ok).length;
+      const validity = validityOf(start, ttl);
+      if (count >= quorum && validity > 0) {
+        handle.validity = validity;
+        return true;
+      }
+
+      // roll back the partial acquisition before retrying
+      await release();
+      return false;
+    }, options);
+
+    if (!locked) {
+      return null;
+    }
+
+    if (options?.autoRenew) {
+      renewal = watchdog(
+        () => extend(),
+        ttl,
+        options.renewIntervalMs,
+        options.onLost
+      );
+      handle.signal = renewal.signal;
+    }
+    return handle;
+  }
+
+  /**
+   * close all the node connections
+   */
+  async function close(): Promise<void> {
+    for (const node of nodes) {
+      node.disconnect();
+    }
+  }
+
+  return {
+    nodes,
+    quorum,
+    lock,
+    close,
+  };
+}
+
+export type Redlock = ReturnType<typeof createRedlock>;
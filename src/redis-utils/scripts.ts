@@ -0,0 +1,635 @@
+/**
+ * lua scripts shared by the helpers, keys are passed through KEYS
+ * so that ioredis applies the keyPrefix
+ */
+
+/**
+ * delete the lock only when it is still held by the token
+ * KEYS[1] lock key, ARGV[1] token
+ */
+export const RELEASE_LOCK = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * reset the lock ttl only when it is still held by the token
+ * KEYS[1] lock key, ARGV[1] token, ARGV[2] ttl in milliseconds
+ */
+export const EXTEND_LOCK = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * redis server time in milliseconds as the local `now`
+ */
+const NOW = `
+local time = redis.call("time")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+`;
+
+/**
+ * take a permit when fewer than ARGV[2] unexpired holders exist
+ * KEYS[1] holders zset, ARGV[1] token, ARGV[2] permits, ARGV[3] ttl in milliseconds
+ */
+export const SEMAPHORE_ACQUIRE = `${NOW}
+local ttl = tonumber(ARGV[3])
+redis.call("zremrangebyscore", KEYS[1], "-inf", now)
+if redis.call("zcard", KEYS[1]) < tonumber(ARGV[2]) then
+  redis.call("zadd", KEYS[1], now + ttl, ARGV[1])
+  if redis.call("pttl", KEYS[1]) < ttl then
+    redis.call("pexpire", KEYS[1], ttl)
+  end
+  return 1
+end
+return 0
+`;
+
+/**
+ * drop the expired holders and count the others
+ * KEYS[1] holders zset
+ */
+export const SEMAPHORE_COUNT = `${NOW}
+redis.call("zremrangebyscore", KEYS[1], "-inf", now)
+return redis.call("zcard", KEYS[1])
+`;
+
+/**
+ * push the expiry of an unexpired holder in a zset
+ * KEYS[1] holders zset, ARGV[1] token, ARGV[2] ttl in milliseconds
+ */
+export const EXTEND_HOLDER = `${NOW}
+local ttl = tonumber(ARGV[2])
+local expiry = redis.call("zscore", KEYS[1], ARGV[1])
+if not expiry or tonumber(expiry) <= now then
+  return 0
+end
+redis.call("zadd", KEYS[1], now + ttl, ARGV[1])
+if redis.call("pttl", KEYS[1]) < ttl then
+  redis.call("pexpire", KEYS[1], ttl)
+end
+return 1
+`;
+
+/**
+ * join the readers unless a writer holds or waits for the lock
+ * KEYS[1] readers zset, KEYS[2] writer, KEYS[3] waiting writers zset
+ * ARGV[1] token, ARGV[2] ttl in milliseconds
+ */
+export const READ_LOCK_ACQUIRE = `${NOW}
+local ttl = tonumber(ARGV[2])
+redis.call("zremrangebyscore", KEYS[3], "-inf", now)
+if redis.call("exists", KEYS[2]) == 1 or redis.call("zcard", KEYS[3]) > 0 then
+  return 0
+end
+redis.call("zremrangebyscore", KEYS[1], "-inf", now)
+redis.call("zadd", KEYS[1], now + ttl, ARGV[1])
+if redis.call("pttl", KEYS[1]) < ttl then
+  redis.call("pexpire", KEYS[1], ttl)
+end
+return 1
+`;
+
+/**
+ * take the writer lock when nobody reads or writes,
+ * otherwise register the intent so that new readers hold back
+ * KEYS[1] readers zset, KEYS[2] writer, KEYS[3] waiting writers zset
+ * ARGV[1] token, ARGV[2] ttl in milliseconds, ARGV[3] intent ttl in milliseconds
+ */
+export const WRITE_LOCK_ACQUIRE = `${NOW}
+redis.call("zremrangebyscore", KEYS[1], "-inf", now)
+redis.call("zremrangebyscore", KEYS[3], "-inf", now)
+if redis.call("exists", KEYS[2]) == 0 and redis.call("zcard", KEYS[1]) == 0 then
+  redis.call("set", KEYS[2], ARGV[1], "PX", ARGV[2])
+  redis.call("zrem", KEYS[3], ARGV[1])
+  return 1
+end
+redis.call("zadd", KEYS[3], now + tonumber(ARGV[3]), ARGV[1])
+redis.call("pexpire", KEYS[3], ARGV[3])
+return 0
+`;
+
+/**
+ * move the entry from the tag sets it was written with to its new ones,
+ * a tag set lives as long as its entries
+ * KEYS[1] set of the entry tags, then the previous tag sets, then the new ones
+ * ARGV[1] entry key without the prefix as the member,
+ * ARGV[2] entry ttl in milliseconds, 0 for none,
+ * ARGV[3] number of previous tags, then the previous tags, then the new ones
+ * returns 0 without a change when the previous tags are no longer current
+ */
+export const CACHE_TAGS = `
+local ms = tonumber(ARGV[2])
+local count = tonumber(ARGV[3])
+if redis.call("scard", KEYS[1]) ~= count then
+  return 0
+end
+for i = 4, 3 + count do
+  if redis.call("sismember", KEYS[1], ARGV[i]) == 0 then
+    return 0
+  end
+end
+
+local kept = {}
+for i = 4 + count, #ARGV do
+  kept[ARGV[i]] = true
+end
+for i = 1, count do
+  if not kept[ARGV[3 + i]] then
+    redis.call("srem", KEYS[1 + i], ARGV[1])
+  end
+end
+redis.call("del", KEYS[1])
+if #ARGV > 3 + count then
+  redis.call("sadd", KEYS[1], unpack(ARGV, 4 + count))
+  if ms > 0 then
+    redis.call("pexpire", KEYS[1], ms)
+  end
+end
+
+for i = 2 + count, #KEYS do
+  local created = redis.call("exists", KEYS[i]) == 0
+  redis.call("sadd", KEYS[i], ARGV[1])
+  if ms == 0 then
+    redis.call("persist", KEYS[i])
+  else
+    local pttl = redis.call("pttl", KEYS[i])
+    if created or (pttl >= 0 and pttl < ms) then
+      redis.call("pexpire", KEYS[i], ms)
+    end
+  end
+end
+return 1
+`;
+
+/**
+ * delete every entry of a tag set with its fresh and tags keys, then the set
+ * KEYS[1] tag set, then the entry, fresh and tags keys of each member
+ * ARGV the members, as read before
+ * returns -1 without a change when the members are no longer current
+ */
+export const INVALIDATE_TAG = `
+if redis.call("scard", KEYS[1]) ~= #ARGV then
+  return -1
+end
+for _, entry in ipairs(ARGV) do
+  if redis.call("sismember", KEYS[1], entry) == 0 then
+    return -1
+  end
+end
+
+local count = 0
+for i = 1, #ARGV do
+  count = count + redis.call("del", KEYS[3 * i - 1])
+  redis.call("del", KEYS[3 * i], KEYS[3 * i + 1])
+end
+redis.call("del", KEYS[1])
+return count
+`;
+
+/*
+ * the rate limiting scripts share one layout and reply
+ * KEYS[1] throttle key
+ * ARGV[1] max, ARGV[2] window in milliseconds, ARGV[3] cost, 0 to peek,
+ * ARGV[4] burst capacity, ARGV[5] unique token of the call
+ * returns { allowed, remaining, resetMs, retryAfterMs }
+ */
+const THROTTLE_ARGS = `
+local max = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local burst = tonumber(ARGV[4])
+`;
+
+/**
+ * a counter per fixed window
+ */
+export const THROTTLE_FIXED_WINDOW = `${THROTTLE_ARGS}
+local count = tonumber(redis.call("get", KEYS[1]) or "0")
+local reset = redis.call("pttl", KEYS[1])
+if reset < 0 then
+  reset = window
+end
+if count + cost > max then
+  return { 0, math.max(0, max - count), reset, reset }
+end
+if cost > 0 then
+  count = redis.call("incrby", KEYS[1], cost)
+  if redis.call("pttl", KEYS[1]) < 0 then
+    redis.call("pexpire", KEYS[1], window)
+  end
+end
+return { 1, max - count, reset, 0 }
+`;
+
+/**
+ * a log of every call in the last window
+ */
+export const THROTTLE_SLIDING_LOG = `${NOW}${THROTTLE_ARGS}
+redis.call("zremrangebyscore", KEYS[1], "-inf", now - window)
+local count = redis.call("zcard", KEYS[1])
+local oldest = redis.call("zrange", KEYS[1], 0, 0, "withscores")
+local reset = 0
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window - now
+end
+if count + cost > max then
+  -- wait until enough of the oldest calls leave the window
+  local retry = window
+  local leaving = count + cost - max
+  if leaving <= count then
+    local entry = redis.call("zrange", KEYS[1], leaving - 1, leaving - 1, "withscores")
+    retry = tonumber(entry[2]) + window - now
+  end
+  return { 0, math.max(0, max - count), reset, retry }
+end
+for i = 1, cost do
+  redis.call("zadd", KEYS[1], now, ARGV[5] .. ":" .. i)
+end
+if cost > 0 then
+  redis.call("pexpire", KEYS[1], window)
+  if count == 0 then
+    reset = window
+  end
+end
+return { 1, max - count - cost, reset, 0 }
+`;
+
+/**
+ * the current window counter plus the previous one weighted by its overlap
+ */
+export const THROTTLE_SLIDING_WINDOW = `${NOW}${THROTTLE_ARGS}
+local index = math.floor(now / window)
+local elapsed = now - index * window
+local current = tonumber(redis.call("hget", KEYS[1], index) or "0")
+local previous = tonumber(redis.call("hget", KEYS[1], index - 1) or "0")
+local estimated = previous * (window - elapsed) / window + current
+local reset = window - elapsed
+if estimated + cost > max then
+  local retry
+  if current + cost <= max then
+    retry = math.ceil(reset - (max - current - cost) * window / previous)
+  else
+    -- the current window becomes the previous one and has to fade enough
+    local fade = math.min(1, (current + cost - max) / current)
+    retry = reset + math.ceil(fade * window)
+  end
+  return { 0, math.max(0, math.floor(max - estimated)), reset, retry }
+end
+if cost > 0 then
+  redis.call("hincrby", KEYS[1], index, cost)
+  redis.call("hdel", KEYS[1], index - 2)
+  redis.call("pexpire", KEYS[1], window * 2)
+end
+return { 1, math.floor(max - estimated - cost), reset, 0 }
+`;
+
+/**
+ * a bucket of burst tokens refilled at max per window
+ */
+export const THROTTLE_TOKEN_BUCKET = `${NOW}${THROTTLE_ARGS}
+local rate = max / window
+local state = redis.call("hmget", KEYS[1], "tokens", "ts")
+local tokens = tonumber(state[1]) or burst
+local ts = tonumber(state[2]) or now
+tokens = math.min(burst, tokens + math.max(0, now - ts) * rate)
+if tokens < cost then
+  local reset = math.ceil((burst - tokens) / rate)
+  return { 0, math.floor(tokens), reset, math.ceil((cost - tokens) / rate) }
+end
+tokens = tokens - cost
+if cost > 0 then
+  redis.call("hset", KEYS[1], "tokens", tokens, "ts", now)
+  redis.call("pexpire", KEYS[1], math.ceil(burst / rate))
+end
+return { 1, math.floor(tokens), math.ceil((burst - tokens) / rate), 0 }
+`;
+
+/**
+ * the generic cell rate algorithm, keeps the theoretical arrival time
+ */
+export const THROTTLE_GCRA = `${NOW}${THROTTLE_ARGS}
+local interval = window / max
+local tolerance = interval * burst
+local tat = math.max(tonumber(redis.call("get", KEYS[1]) or "0"), now)
+local next_tat = tat + interval * cost
+local allow_at = next_tat - tolerance
+if allow_at > now then
+  local remaining = math.max(0, math.floor((tolerance - (tat - now)) / interval))
+  return { 0, remaining, math.ceil(tat - now), math.ceil(allow_at - now) }
+end
+if cost > 0 then
+  redis.call("set", KEYS[1], next_tat, "PX", math.ceil(next_tat - now))
+end
+local remaining = math.floor((tolerance - (next_tat - now)) / interval)
+return { 1, remaining, math.ceil(next_tat - now), 0 }
+`;
+
+/*
+ * the reliable queue keeps the message ids in lists and the rest in hashes
+ * KEYS[1] ready list, the other keys are named after it
+ */
+
+/**
+ * move the next message to the processing list of the consumer
+ * KEYS[1] ready, KEYS[2] processing, KEYS[3] deliveries, KEYS[4] deadlines,
+ * KEYS[5] owners, KEYS[6] messages, KEYS[7] errors
+ * ARGV[1] visibility timeout in milliseconds, ARGV[2] consumer
+ * returns { id, body, deliveries, first error }
+ */
+export const RELIABLE_POP = `${NOW}
+local id = redis.call("rpoplpush", KEYS[1], KEYS[2])
+if not id then
+  return nil
+end
+local deliveries = redis.call("hincrby", KEYS[3], id, 1)
+redis.call("zadd", KEYS[4], now + tonumber(ARGV[1]), id)
+redis.call("hset", KEYS[5], id, ARGV[2])
+return { id, redis.call("hget", KEYS[6], id), deliveries, redis.call("hget", KEYS[7], id) }
+`;
+
+/**
+ * forget a processed message
+ * KEYS[1] processing, KEYS[2] deadlines, KEYS[3] owners, KEYS[4] messages,
+ * KEYS[5] deliveries, KEYS[6] errors, ARGV[1] id
+ */
+export const RELIABLE_ACK = `
+if redis.call("lrem", KEYS[1], 1, ARGV[1]) == 0 then
+  return 0
+end
+redis.call("zrem", KEYS[2], ARGV[1])
+for i = 3, 6 do
+  redis.call("hdel", KEYS[i], ARGV[1])
+end
+return 1
+`;
+
+/**
+ * move the deadline of a message in processing a visibility timeout
+ * past the server time
+ * KEYS[1] deadlines, ARGV[1] id, ARGV[2] visibility timeout in milliseconds
+ */
+export const RELIABLE_TOUCH = `${NOW}
+if not redis.call("zscore", KEYS[1], ARGV[1]) then
+  return 0
+end
+redis.call("zadd", KEYS[1], now + tonumber(ARGV[2]), ARGV[1])
+return 1
+`;
+
+/**
+ * put a failed message back, or into the dead letters after too many deliveries
+ * KEYS[1] ready, KEYS[2] processing, KEYS[3] deadlines, KEYS[4] owners,
+ * KEYS[5] deliveries, KEYS[6] errors, KEYS[7] dead letters
+ * ARGV[1] id, ARGV[2] error, ARGV[3] max deliveries
+ * returns 1 when requeued, 0 when dead, -1 when not processing
+ */
+export const RELIABLE_NACK = `
+local id = ARGV[1]
+if redis.call("lrem", KEYS[2], 1, id) == 0 then
+  return -1
+end
+redis.call("zrem", KEYS[3], id)
+redis.call("hdel", KEYS[4], id)
+if ARGV[2] ~= "" then
+  redis.call("hsetnx", KEYS[6], id, ARGV[2])
+end
+if tonumber(redis.call("hget", KEYS[5], id) or "0") >= tonumber(ARGV[3]) then
+  redis.call("lpush", KEYS[7], id)
+  return 0
+end
+redis.call("lpush", KEYS[1], id)
+return 1
+`;
+
+/**
+ * requeue the messages whose visibility timeout ran out
+ * KEYS[1] ready, KEYS[2] deadlines, KEYS[3] owners, KEYS[4] deliveries,
+ * KEYS[5] errors, KEYS[6] dead letters
+ * ARGV[1] max deliveries, ARGV[2] max messages to requeue
+ * returns the number of requeued or dead messages
+ */
+export const RELIABLE_REAP = `${NOW}
+local ids = redis.call("zrangebyscore", KEYS[2], "-inf", now, "limit", 0, ARGV[2])
+for _, id in ipairs(ids) do
+  local owner = redis.call("hget", KEYS[3], id)
+  if owner then
+    redis.call("lrem", KEYS[1] .. ":processing:" .. owner, 1, id)
+  end
+  redis.call("zrem", KEYS[2], id)
+  redis.call("hdel", KEYS[3], id)
+  redis.call("hsetnx", KEYS[5], id, "visibility timeout expired")
+  if tonumber(redis.call("hget", KEYS[4], id) or "0") >= tonumber(ARGV[1]) then
+    redis.call("lpush", KEYS[6], id)
+  else
+    redis.call("lpush", KEYS[1], id)
+  end
+end
+return #ids
+`;
+
+/**
+ * give the dead letters a fresh start
+ * KEYS[1] ready, KEYS[2] dead letters, KEYS[3] deliveries, KEYS[4] errors
+ */
+export const RELIABLE_REQUEUE_DEAD = `
+local ids = redis.call("lrange", KEYS[2], 0, -1)
+for i = #ids, 1, -1 do
+  redis.call("hdel", KEYS[3], ids[i])
+  redis.call("hdel", KEYS[4], ids[i])
+  redis.call("lpush", KEYS[1], ids[i])
+end
+redis.call("del", KEYS[2])
+return #ids
+`;
+
+/**
+ * schedule a message a delay after the server time
+ * KEYS[1] due zset, KEYS[2] messages hash
+ * ARGV[1] id, ARGV[2] message, ARGV[3] delay in milliseconds
+ */
+export const DELAYED_PUSH = `${NOW}
+redis.call("hset", KEYS[2], ARGV[1], ARGV[2])
+redis.call("zadd", KEYS[1], now + tonumber(ARGV[3]), ARGV[1])
+return 1
+`;
+
+/**
+ * move the due messages into the ready queue
+ * KEYS[1] due zset, KEYS[2] messages hash, KEYS[3] ready list
+ * ARGV[1] max messages to move
+ */
+export const DELAYED_PROMOTE = `${NOW}
+local ids = redis.call("zrangebyscore", KEYS[1], "-inf", now, "limit", 0, ARGV[1])
+for _, id in ipairs(ids) do
+  local message = redis.call("hget", KEYS[2], id)
+  if message then
+    redis.call("lpush", KEYS[3], message)
+  end
+  redis.call("zrem", KEYS[1], id)
+  redis.call("hdel", KEYS[2], id)
+end
+return #ids
+`;
+
+/**
+ * add an item, the zero padded sequence keeps equal priorities in FIFO order
+ * KEYS[1] priority zset, KEYS[2] items hash, KEYS[3] sequence,
+ * KEYS[4] ready list, holding one element while there are items
+ * ARGV[1] priority, ARGV[2] value
+ * returns the id of the item
+ */
+export const PRIORITY_PUSH = `
+local id = string.format("%016d", redis.call("incr", KEYS[3]))
+redis.call("zadd", KEYS[1], -tonumber(ARGV[1]), id)
+redis.call("hset", KEYS[2], id, ARGV[2])
+if redis.call("exists", KEYS[4]) == 0 then
+  redis.call("rpush", KEYS[4], 1)
+end
+return id
+`;
+
+/**
+ * take the items of the highest priority
+ * KEYS[1] priority zset, KEYS[2] items hash, KEYS[3] ready list, ARGV[1] count
+ * returns { id, score, value, ... }
+ */
+export const PRIORITY_POP = `
+local popped = redis.call("zpopmin", KEYS[1], ARGV[1])
+local items = {}
+for i = 1, #popped, 2 do
+  local id = popped[i]
+  table.insert(items, id)
+  table.insert(items, popped[i + 1])
+  table.insert(items, redis.call("hget", KEYS[2], id))
+  redis.call("hdel", KEYS[2], id)
+end
+if redis.call("zcard", KEYS[1]) == 0 then
+  redis.call("del", KEYS[3])
+end
+return items
+`;
+
+/**
+ * KEYS[1] priority zset, KEYS[2] items hash, KEYS[3] ready list, ARGV[1] id
+ * returns 1 when the item was waiting
+ */
+export const PRIORITY_REMOVE = `
+local removed = redis.call("zrem", KEYS[1], ARGV[1])
+redis.call("hdel", KEYS[2], ARGV[1])
+if redis.call("zcard", KEYS[1]) == 0 then
+  redis.call("del", KEYS[3])
+end
+return removed
+`;
+
+/**
+ * move a waiting item to another priority
+ * KEYS[1] priority zset, ARGV[1] id, ARGV[2] priority
+ * returns 0 when the item is gone
+ */
+export const PRIORITY_MOVE = `
+if not redis.call("zscore", KEYS[1], ARGV[1]) then
+  return 0
+end
+redis.call("zadd", KEYS[1], "XX", -tonumber(ARGV[2]), ARGV[1])
+return 1
+`;
+
+/**
+ * move the schedule of a task forward, never backwards
+ * KEYS[1] task state hash
+ * ARGV[1] last scheduled time, ARGV[2] next run time
+ */
+export const SCHEDULE_ADVANCE = `
+local last = tonumber(redis.call("hget", KEYS[1], "lastScheduledAt") or "0")
+if tonumber(ARGV[1]) > last then
+  redis.call("hset", KEYS[1], "lastScheduledAt", ARGV[1])
+end
+redis.call("hset", KEYS[1], "nextRunAt", ARGV[2])
+return 1
+`;
+
+/**
+ * open the next layer of a scalable bloom filter, once
+ * KEYS[1] meta hash, ARGV[1] layers seen when the last one filled up
+ * returns the layer count
+ */
+export const BLOOM_GROW = `
+local layers = tonumber(redis.call("hget", KEYS[1], "layers") or "1")
+if layers == tonumber(ARGV[1]) then
+  layers = layers + 1
+  redis.call("hset", KEYS[1], "layers", layers)
+end
+return layers
+`;
+
+/**
+ * set or add to a leaderboard score, the fraction of the stored score
+ * puts the earliest achiever first among equal scores
+ * KEYS[1] board zset
+ * ARGV[1] member, ARGV[2] score, ARGV[3] "set" or "incr",
+ * ARGV[4] "desc" or "asc", ARGV[5] expire at in milliseconds, 0 to keep
+ * returns the score without the fraction, an error past 2^21
+ */
+export const LEADERBOARD_WRITE = `${NOW}
+local score = tonumber(ARGV[2])
+if ARGV[3] == "incr" then
+  local current = redis.call("zscore", KEYS[1], ARGV[1])
+  if current then
+    score = score + math.floor(tonumber(current))
+  end
+end
+if math.abs(score) > 2097152 then
+  return redis.error_reply("the score is beyond 2^21, earliestFirst is on")
+end
+-- seconds since 2020
+local seconds = math.floor(now / 1000) - 1577836800
+local fraction = seconds / 4294967296
+if ARGV[4] == "desc" then
+  fraction = (4294967295 - seconds) / 4294967296
+end
+redis.call("zadd", KEYS[1], string.format("%.17g", score + fraction), ARGV[1])
+if tonumber(ARGV[5]) > 0 then
+  redis.call("pexpireat", KEYS[1], ARGV[5])
+end
+return string.format("%.17g", score)
+`;
+
+/**
+ * sum leaderboards keeping the fraction of the earliest achiever
+ * KEYS[1] destination, KEYS[2..] source boards, ARGV[1] "desc" or "asc"
+ * returns the member count of the destination
+ */
+export const LEADERBOARD_SUM = `
+local totals = {}
+local fractions = {}
+for i = 2, #KEYS do
+  local entries = redis.call("zrange", KEYS[i], 0, -1, "withscores")
+  for j = 1, #entries, 2 do
+    local member = entries[j]
+    local score = tonumber(entries[j + 1])
+    local whole = math.floor(score)
+    local fraction = score - whole
+    local best = fractions[member]
+    totals[member] = (totals[member] or 0) + whole
+    if best == nil or (ARGV[1] == "desc" and fraction > best)
+      or (ARGV[1] == "asc" and fraction < best) then
+      fractions[member] = fraction
+    end
+  end
+end
+redis.call("del", KEYS[1])
+local count = 0
+for member, total in pairs(totals) do
+  local score = string.format("%.17g", total + fractions[member])
+  redis.call("zadd", KEYS[1], score, member)
+  count = count + 1
+end
+return count
+`;
@@ -0,0 +1,43 @@
+import { describe, test, expect } from "@jest/globals";
+import { bloomPositions, bloomSize, bucketsBetween } from "./utils";
+
+describe("utils", () => {
+  test("list the buckets of a range", () => {
+    const from = Date.UTC(2024, 0, 31, 23, 30);
+    const to = Date.UTC(2024, 1, 1, 1);
+    expect(bucketsBetween(from, to, "hour")).toEqual([
+      "2024-01-31T23",
+      "2024-02-01T00",
+      "2024-02-01T01",
+    ]);
+    expect(bucketsBetween(from, to, "day")).toEqual([
+      "2024-01-31",
+      "2024-02-01",
+    ]);
+    // from after to is an empty range
+    expect(bucketsBetween(to, from, "day")).toEqual([]);
+  });
+
+  test("size a bloom filter", () => {
+    expect(bloomSize(1000, 0.01)).toEqual({ bits: 9586, hashes: 7 });
+    expect(() => bloomSize(1e9, 1e-9)).toThrow();
+  });
+
+  test("keep the bloom filter offsets in range", () => {
+    for (const size of [
+      bloomSize(500, 0.01),
+      bloomSize(1e8, 0.001),
+      { bits: 2 ** 32, hashes: 30 },
+    ]) {
+      for (let i = 0; i < 500; i++) {
+        const positions = bloomPositions(`id:${i}`, size.bits, size.hashes);
+        expect(positions.length).toEqual(size.hashes);
+        for (const offset of positions) {
+          expect(Number.isInteger(offset)).toBeTruthy();
+          expect(offset).toBeGreaterThanOrEqual(0);
+          expect(offset).toBeLessThan(size.bits);
+        }
+      }
+    }
+  });
+});
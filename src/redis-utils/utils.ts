@@ -0,0 +1,248 @@
+import { createHash } from "crypto";
+
+export interface AcquireOptions {
+  /** keep retrying for this long, try only once when omitted */
+  waitMs?: number;
+  /** base delay between two attempts, a random jitter is added */
+  retryDelayMs?: number;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * let the process exit while the timer is pending, timers are plain
+ * numbers in browser like environments such as jsdom
+ * @param timer
+ */
+export function unref(timer: unknown) {
+  (timer as { unref?: () => void }).unref?.();
+}
+
+/**
+ * call attempt until it succeeds or options.waitMs runs out
+ * @param attempt
+ * @param options
+ * @returns
+ */
+export async function acquire(
+  attempt: () => Promise<boolean>,
+  options: AcquireOptions = {}
+): Promise<boolean> {
+  const deadline = Date.now() + (options.waitMs ?? 0);
+  const retryDelayMs = options.retryDelayMs ?? 100;
+
+  while (true) {
+    if (await attempt()) {
+      return true;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return false;
+    }
+
+    const delay = retryDelayMs / 2 + Math.random() * retryDelayMs;
+    await sleep(Math.min(delay, remaining));
+  }
+}
+
+/**
+ * keep renewing a lease in the background until stopped,
+ * the signal is aborted once the lease can not be renewed
+ * @param extend
+ * @param ttl lease length in milliseconds
+ * @param intervalMs
+ * @param onLost
+ * @returns
+ */
+export function watchdog(
+  extend: () => Promise<boolean>,
+  ttl: number,
+  intervalMs: number = ttl / 3,
+  onLost?: (err: Error) => void
+) {
+  const controller = new AbortController();
+  let expiresAt = Date.now() + ttl;
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  function lost(err: Error) {
+    stopped = true;
+    controller.abort(err);
+    onLost?.(err);
+  }
+
+  async function renew() {
+    const start = Date.now();
+    try {
+      const renewed = await extend();
+      if (stopped) {
+        return;
+      }
+      if (!renewed) {
+        return lost(new Error("the lease is held by someone else"));
+      }
+      expiresAt = start + ttl;
+    } catch (err) {
+      if (stopped) {
+        return;
+      }
+      // keep trying while the lease has not run out yet
+      if (Date.now() + intervalMs >= expiresAt) {
+        return lost(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+    schedule();
+  }
+
+  function schedule() {
+    timer = setTimeout(renew, intervalMs);
+    unref(timer);
+  }
+
+  function stop() {
+    stopped = true;
+    clearTimeout(timer);
+  }
+
+  schedule();
+
+  return {
+    signal: controller.signal,
+    stop,
+  };
+}
+
+/**
+ * an in-process least recently used map with a time to live
+ * @param maxEntries
+ * @param ttlMs
+ * @returns
+ */
+export function createLru<V>(maxEntries: number, ttlMs: number) {
+  // a Map iterates in insertion order, so the first entry is the oldest
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+
+  function get(key: string): V | undefined {
+    const entry = entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    entries.set(key, entry);
+    return entry.value;
+  }
+
+  function set(key: string, value: V) {
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    if (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  }
+
+  function remove(key: string) {
+    entries.delete(key);
+  }
+
+  function clear() {
+    entries.clear();
+  }
+
+  function size(): number {
+    return entries.size;
+  }
+
+  return {
+    get,
+    set,
+    remove,
+    clear,
+    size,
+  };
+}
+
+export type TimeBucket = "minute" | "hour" | "day";
+
+const BUCKET_MS: Record<TimeBucket, number> = {
+  minute: 60 * 1000,
+  hour: 3600 * 1000,
+  day: 24 * 3600 * 1000,
+};
+
+/**
+ * the UTC bucket of a time, e.g. 2024-01-05, 2024-01-05T13 or 2024-01-05T13:07
+ * @param time
+ * @param bucket
+ * @returns
+ */
+export function bucketOf(time: Date | number, bucket: TimeBucket): string {
+  const iso = new Date(time).toISOString();
+  return iso.slice(0, { day: 10, hour: 13, minute: 16 }[bucket]);
+}
+
+/**
+ * every bucket from the one of from to the one of to, both included
+ * @param from
+ * @param to
+ * @param bucket
+ * @returns
+ */
+export function bucketsBetween(
+  from: Date | number,
+  to: Date | number,
+  bucket: TimeBucket
+): string[] {
+  const step = BUCKET_MS[bucket];
+  const buckets: string[] = [];
+  for (
+    let t = Math.floor(new Date(from).getTime() / step) * step;
+    t <= new Date(to).getTime();
+    t += step
+  ) {
+    buckets.push(bucketOf(t, bucket));
+  }
+  return buckets;
+}
+
+/**
+ * the optimal bit size and hash count of a bloom filter
+ * @param items
+ * @param errorRate
+ * @returns
+ */
+export function bloomSize(items: number, errorRate: number) {
+  const bits = Math.ceil((-items * Math.log(errorRate)) / Math.LN2 ** 2);
+  if (bits > 2 ** 32) {
+    throw new Error("the bloom filter does not fit in a redis string");
+  }
+  return { bits, hashes: Math.max(1, Math.round((bits / items) * Math.LN2)) };
+}
+
+/**
+ * the bits of an item, by double hashing one sha256 digest
+ * @param item
+ * @param bits
+ * @param hashes
+ * @returns
+ */
+export function bloomPositions(
+  item: string | Buffer,
+  bits: number,
+  hashes: number
+): number[] {
+  const digest = createHash("sha256").update(item).digest();
+  const h1 = digest.readUInt32BE(0);
+  // odd and unsigned, a bitwise or alone gives a signed int32
+  const h2 = (digest.readUInt32BE(4) | 1) >>> 0;
+  const positions: number[] = [];
+  for (let i = 0; i < hashes; i++) {
+    positions.push(((h1 + i * h2) >>> 0) % bits);
+  }
+  return positions;
+}